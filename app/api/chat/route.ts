@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server'
+import { reportContentRatelimit } from '@/lib/redis'
+import { CONFIG } from '@/lib/config'
+import { reportSchema } from '@/lib/schemas'
+import { parseChatMessages, streamChatAnswer } from '@/lib/chat'
+import { createSSEResponse } from '@/lib/sse'
+import { getPlatformModelError, DEFAULT_PLATFORM_MODEL } from '@/lib/llm'
+import { type Article } from '@/types'
+
+export const maxDuration = 120
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const {
+      report: rawReport,
+      articles = [],
+      messages: rawMessages,
+      platformModel = DEFAULT_PLATFORM_MODEL,
+    } = body as {
+      report: unknown
+      articles?: Article[]
+      messages: unknown
+      platformModel?: string
+    }
+
+    const parsedReport = reportSchema.safeParse(rawReport)
+    if (!parsedReport.success) {
+      return NextResponse.json(
+        { error: 'A valid report is required' },
+        { status: 400 }
+      )
+    }
+
+    const messages = parseChatMessages(rawMessages)
+    const lastMessage = messages[messages.length - 1]
+    if (!lastMessage || lastMessage.role !== 'user' || !lastMessage.content.trim()) {
+      return NextResponse.json(
+        { error: 'A question is required' },
+        { status: 400 }
+      )
+    }
+
+    const platformModelError = getPlatformModelError(platformModel)
+    if (platformModelError) {
+      return NextResponse.json(
+        { error: platformModelError },
+        { status: 400 }
+      )
+    }
+
+    // Only check rate limit if enabled
+    if (CONFIG.rateLimits.enabled) {
+      const { success } = await reportContentRatelimit.limit('chat')
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Too many requests' },
+          { status: 429 }
+        )
+      }
+    }
+
+    // Stream the answer as it's written
+    return createSSEResponse(async (send) => {
+      try {
+        for await (const text of streamChatAnswer(platformModel, {
+          report: parsedReport.data,
+          articles,
+          messages,
+        })) {
+          send('delta', { text })
+        }
+        send('done', {})
+      } catch (error) {
+        console.error('Chat answer error:', error)
+        send('error', { error: 'Failed to answer question' })
+      }
+    })
+  } catch (error) {
+    console.error('Chat API error:', error)
+    return NextResponse.json(
+      { error: 'Invalid request' },
+      { status: 400 }
+    )
+  }
+}
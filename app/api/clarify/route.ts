@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { reportContentRatelimit } from '@/lib/redis'
+import { CONFIG } from '@/lib/config'
+import { getPlatformModelError, DEFAULT_PLATFORM_MODEL } from '@/lib/llm'
+import { generateClarifyingQuestions } from '@/lib/clarify'
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const {
+      query,
+      platformModel = DEFAULT_PLATFORM_MODEL,
+    }: { query?: string; platformModel?: string } = body
+
+    if (!query?.trim()) {
+      return NextResponse.json(
+        { error: 'Query parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    const platformModelError = getPlatformModelError(platformModel)
+    if (platformModelError) {
+      return NextResponse.json(
+        { error: platformModelError },
+        { status: 400 }
+      )
+    }
+
+    // Only check rate limit if enabled
+    if (CONFIG.rateLimits.enabled) {
+      const { success } = await reportContentRatelimit.limit('clarify')
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Too many requests' },
+          { status: 429 }
+        )
+      }
+    }
+
+    try {
+      const questions = await generateClarifyingQuestions(query, platformModel)
+      return NextResponse.json({ questions })
+    } catch (error) {
+      console.error('Clarifying question generation error:', error)
+      return NextResponse.json(
+        { error: 'Failed to generate clarifying questions' },
+        { status: 500 }
+      )
+    }
+  } catch (error) {
+    console.error('Clarify API error:', error)
+    return NextResponse.json(
+      { error: 'Invalid request' },
+      { status: 400 }
+    )
+  }
+}
@@ -1,93 +1,20 @@
 import { NextResponse } from 'next/server'
-import { geminiFlashThinkingModel } from '@/lib/gemini'
 import { reportContentRatelimit } from '@/lib/redis'
 import { CONFIG } from '@/lib/config'
-import { type Report, type Article } from '@/types'
-
-const MAX_RETRIES = 2;
-
-async function retryJsonParse(jsonMatch: string, retryCount = 0): Promise<any> {
-  try {
-    return JSON.parse(jsonMatch);
-  } catch (error) {
-    const parseError = error as Error;
-    console.error(`JSON parsing error (attempt ${retryCount + 1}):`, parseError);
-    console.log('Problematic JSON:', jsonMatch.substring(0, 200) + '...');
-    
-    if (retryCount < MAX_RETRIES) {
-      console.log(`Retrying JSON parse, attempt ${retryCount + 2}...`);
-      
-      // Add a small delay before retrying
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Try to clean the JSON string before parsing
-      let cleanedJson = jsonMatch
-        // Fix invalid escapes
-        .replace(/\\(?!["\\/bfnrt])/g, '\\\\')
-        // Fix unescaped quotes
-        .replace(/(?<!\\)"/g, '\\"')
-        // Properly handle newlines and whitespace
-        .replace(/[\n\r]+/g, ' ')
-        .replace(/\t/g, ' ')
-        // Remove BOM and other unicode markers
-        .replace(/^\uFEFF/, '')
-        // Remove control characters
-        .replace(/[\u0000-\u001F]+/g, '')
-        // Fix common markdown artifacts
-        .replace(/```json\s*/, '')
-        .replace(/\s*```\s*$/, '')
-        // Handle potential trailing commas
-        .replace(/,\s*([\]}])/g, '$1')
-        // Ensure proper JSON structure
-        .trim();
-
-      // Remove literal "\n" strings that aren't properly escaped
-      cleanedJson = cleanedJson.replace(/([^\\])\\n/g, '$1 ');
-      cleanedJson = cleanedJson.replace(/^\\n/g, ' ');
-
-      // More aggressive JSON repair for common issues
-      try {
-        // Try to parse with relaxed JSON parsing first
-        cleanedJson = cleanedJson
-          // Replace all literal "\n" with actual spaces
-          .replace(/\\n/g, ' ')
-          // Fix double-escaped quotes
-          .replace(/\\\\"/g, '\\"')
-          // Remove any backslashes before characters that don't need escaping
-          .replace(/\\([^"\\/bfnrtu])/g, '$1');
-
-        // If the first character isn't a valid JSON start, try to find the JSON object
-        if (!/^[\[{]/.test(cleanedJson)) {
-          const jsonStart = cleanedJson.indexOf('{');
-          if (jsonStart >= 0) {
-            cleanedJson = cleanedJson.substring(jsonStart);
-          } else {
-            cleanedJson = '{' + cleanedJson;
-          }
-        }
-        
-        // If the last character isn't a valid JSON end, try to find the closing bracket
-        if (!/[\]}]$/.test(cleanedJson)) {
-          const jsonEnd = cleanedJson.lastIndexOf('}');
-          if (jsonEnd >= 0 && jsonEnd < cleanedJson.length - 1) {
-            cleanedJson = cleanedJson.substring(0, jsonEnd + 1);
-          } else {
-            cleanedJson = cleanedJson + '}';
-          }
-        }
-      } catch (repairError) {
-        console.error('Error during JSON repair:', repairError);
-      }
-
-      // Log the cleaned JSON for debugging
-      console.log('Cleaned JSON:', cleanedJson.substring(0, 200) + '...');
-        
-      return retryJsonParse(cleanedJson, retryCount + 1);
-    }
-    
-    throw new Error(`Failed to parse JSON after ${MAX_RETRIES + 1} attempts: ${parseError.message}`);
-  }
-}
+import {
+  type Report,
+  type Article,
+  type Clarification,
+  type Learning,
+  type Source,
+} from '@/types'
+import { getPlatformModelError, DEFAULT_PLATFORM_MODEL } from '@/lib/llm'
+import { generateStructured } from '@/lib/llm/structured'
+import { generatedReportSchema } from '@/lib/schemas'
+import { citationMarkerInstructions, resolveCitations } from '@/lib/citations'
+import { fitArticlesToBudget, getSourceBudget } from '@/lib/llm/budget'
+import { canonicalizeUrl } from '@/lib/dedupe'
+import { formatResearchBrief, parseClarifications } from '@/lib/clarify'
 
 export const maxDuration = 600
 
@@ -99,14 +26,14 @@ function generateSystemPrompt(
 ) {
   let citationInstructions = ''
   if (citationStyle === 'APA 7th Edition') {
-    citationInstructions = `5. Use APA 7th edition in-text citations (Author, Year) when referencing sources
+    citationInstructions = `5. ${citationMarkerInstructions}
 6. Include a References section at the end listing all cited sources in alphabetical order, formatted according to APA 7th edition guidelines`
   } else if (citationStyle === 'MLA 9th Edition') {
-    citationInstructions = `5. Use MLA 9th edition in-text citations (Author Page) when referencing sources
+    citationInstructions = `5. ${citationMarkerInstructions}
 6. Include a Works Cited section at the end listing all cited sources in alphabetical order, formatted according to MLA 9th edition guidelines`
   } else {
     // IEEE
-    citationInstructions = `5. Use IEEE numerical citations [1] when referencing sources
+    citationInstructions = `5. ${citationMarkerInstructions}
 6. Include a References section at the end listing all cited sources in numerical order of appearance, formatted according to IEEE guidelines`
   }
 
@@ -134,7 +61,7 @@ ${citationInstructions}
 
 Here are the sources and their key findings:
 ${selectedResults.map((result, index) => `
-${index + 1}. Source: ${result.title}
+Source [${index + 1}]: ${result.title}
    URL: ${result.url}
    Content: ${result.content}
 `).join('\n')}
@@ -164,18 +91,43 @@ Use markdown formatting in the content to improve readability:
 - Use --- for horizontal rules where appropriate`
 }
 
+// One article per source holding everything learned from it, so citations point at
+// the pages a learning actually came from. Learnings without a source are kept for
+// context but can't be cited
+function groupLearningsBySource(learnings: Learning[], sources: Source[]): Article[] {
+  const articles: Article[] = sources.map(source => {
+    const canonical = canonicalizeUrl(source.url)
+    const sourceLearnings = learnings.filter(learning =>
+      learning.urls.some(url => canonicalizeUrl(url) === canonical)
+    )
+    return {
+      url: source.url,
+      title: source.name,
+      content: sourceLearnings.map(learning => `- ${learning.text}`).join('\n'),
+    }
+  })
+
+  const unattributed = learnings.filter(learning => learning.urls.length === 0)
+  if (unattributed.length > 0) {
+    articles.push({
+      url: '',
+      title: 'Learnings without a recorded source',
+      content: unattributed.map(learning => `- ${learning.text}`).join('\n'),
+    })
+  }
+
+  return articles.filter(article => article.content)
+}
+
 // Update the request body type handling
 interface DeepReportRequest {
-  learnings: string[]  // Add learnings field
-  sources: Array<{
-    id: string
-    url: string
-    name: string
-  }>
+  learnings: Learning[]
+  sources: Source[]
   prompt: string
-  model: string
+  platformModel?: string
   citationStyle?: string
   wordCount?: string
+  clarifications?: Clarification[]
 }
 
 // Update the POST function parameters
@@ -183,20 +135,27 @@ export async function POST(request: Request) {
   try {
     const body = await request.json() as DeepReportRequest
     const {
-      learnings,  // Add learnings destructuring
+      learnings,
       sources,
-      prompt,
+      prompt: requestPrompt,
       citationStyle = 'APA 7th Edition',
       wordCount = '1500',
-      model = 'gemini-flash-thinking'
+      platformModel = DEFAULT_PLATFORM_MODEL,
+      clarifications,
     } = body
+    // Fold the user's clarifications into the request the report has to address
+    const brief = formatResearchBrief(parseClarifications(clarifications))
+    const prompt = brief ? `${requestPrompt}\n\n${brief}` : requestPrompt
+
+    const platformModelError = getPlatformModelError(platformModel)
+    if (platformModelError) {
+      return NextResponse.json(
+        { error: platformModelError },
+        { status: 400 }
+      )
+    }
 
-    // Transform learnings into the expected article format
-    const selectedResults: Article[] = learnings.map((learning, index) => ({
-      url: sources[index]?.url || '',
-      title: sources[index]?.name || `Learning ${index + 1}`,
-      content: learning
-    }))
+    const selectedResults = groupLearningsBySource(learnings, sources)
 
     // Only check rate limit if enabled
     if (CONFIG.rateLimits.enabled) {
@@ -209,45 +168,37 @@ export async function POST(request: Request) {
       }
     }
 
+    // Condense learnings that won't fit in the model's context window
+    const promptArticles = await fitArticlesToBudget(platformModel, selectedResults, {
+      query: prompt,
+      budget: getSourceBudget(
+        platformModel,
+        generateSystemPrompt([], prompt, citationStyle, wordCount)
+      ),
+    })
+
     const systemPrompt = generateSystemPrompt(
-      selectedResults,
+      promptArticles,
       prompt,
       citationStyle,
       wordCount
     )
 
     try {
-      const result = await geminiFlashThinkingModel.generateContent({
-        contents: [{ role: 'user', parts: [{ text: systemPrompt }] }],
-        generationConfig: { maxOutputTokens: 8192 }
+      const generatedReport = await generateStructured(platformModel, {
+        prompt: systemPrompt,
+        schema: generatedReportSchema,
+        maxTokens: 8192,
       })
 
-      const response = result.response.text()
-
-      // Extract JSON using regex
-      const jsonMatch = response.match(/\{[\s\S]*\}/)?.[0]
-      if (!jsonMatch) {
-        console.error('No JSON found in response')
-        return NextResponse.json(
-          { error: 'Invalid report format' },
-          { status: 500 }
-        )
+      // Point citation markers at the sources array and attach it
+      const reportData: Report = {
+        ...resolveCitations(generatedReport, selectedResults, sources),
+        sources,
       }
 
-      try {
-        const reportData = await retryJsonParse(jsonMatch) as Report
-        // Add sources to the report data
-        reportData.sources = sources
-        
-        console.log('Generated deep search report:', reportData)
-        return NextResponse.json(reportData)
-      } catch (parseError) {
-        console.error('Final JSON parsing error:', parseError)
-        return NextResponse.json(
-          { error: 'Failed to parse report format after retries' },
-          { status: 500 }
-        )
-      }
+      console.log('Generated deep search report:', reportData)
+      return NextResponse.json(reportData)
     } catch (error) {
       console.error('Model generation error:', error)
       return NextResponse.json(
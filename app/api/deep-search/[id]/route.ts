@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server'
+import { CONFIG } from '@/lib/config'
+import { cancelJob, claimJob, getJob, streamJob } from '@/lib/research-jobs'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function jobsDisabledResponse() {
+  return NextResponse.json(
+    { error: 'Deep research jobs are not enabled' },
+    { status: 404 }
+  )
+}
+
+// Poll a job's status and research tree
+export async function GET(_request: Request, { params }: RouteContext) {
+  if (!CONFIG.deepResearch.persistJobs) return jobsDisabledResponse()
+
+  try {
+    const { id } = await params
+    const job = await getJob(id)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error('Failed to load deep research job:', error)
+    return NextResponse.json(
+      { error: 'Failed to load job' },
+      { status: 500 }
+    )
+  }
+}
+
+// Resume a job from its last checkpoint, streaming progress like a new search
+export async function POST(_request: Request, { params }: RouteContext) {
+  if (!CONFIG.deepResearch.persistJobs) return jobsDisabledResponse()
+
+  try {
+    const { id } = await params
+    const job = await getJob(id)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    // Taking the lease is atomic, so of two racing resumes only one gets to run
+    const lease = await claimJob(id)
+    if (!lease) {
+      return NextResponse.json(
+        { error: 'Job is still running' },
+        { status: 409 }
+      )
+    }
+
+    console.log(`Resuming deep research job ${id} from status ${job.status}`)
+    return streamJob(job, lease)
+  } catch (error) {
+    console.error('Failed to resume deep research job:', error)
+    return NextResponse.json(
+      { error: 'Failed to resume job' },
+      { status: 500 }
+    )
+  }
+}
+
+// Cancel a running job; it stops before its next query and keeps what it has
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  if (!CONFIG.deepResearch.persistJobs) return jobsDisabledResponse()
+
+  try {
+    const { id } = await params
+    const job = await getJob(id)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    await cancelJob(id)
+    return NextResponse.json({ id, status: 'cancelling' })
+  } catch (error) {
+    console.error('Failed to cancel deep research job:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel job' },
+      { status: 500 }
+    )
+  }
+}
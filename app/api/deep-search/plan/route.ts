@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { reportContentRatelimit } from '@/lib/redis'
+import { CONFIG } from '@/lib/config'
+import { getPlatformModelError, DEFAULT_PLATFORM_MODEL } from '@/lib/llm'
+import { planResearch } from '@/lib/deep-research'
+import { formatResearchBrief, parseClarifications } from '@/lib/clarify'
+
+// Generate the first-level queries of a deep search for the user to review
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const {
+      query,
+      searchBreadth = 4,
+      platformModel = DEFAULT_PLATFORM_MODEL,
+      clarifications,
+    } = body
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Query parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    const platformModelError = getPlatformModelError(platformModel)
+    if (platformModelError) {
+      return NextResponse.json(
+        { error: platformModelError },
+        { status: 400 }
+      )
+    }
+
+    // Only check rate limit if enabled
+    if (CONFIG.rateLimits.enabled) {
+      const { success } = await reportContentRatelimit.limit('deep-search-plan')
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Too many requests' },
+          { status: 429 }
+        )
+      }
+    }
+
+    try {
+      const queries = await planResearch({
+        query,
+        breadth: Math.min(Number(searchBreadth) || 4, CONFIG.deepResearch.maxPlanQueries),
+        brief: formatResearchBrief(parseClarifications(clarifications)),
+        platformModel,
+      })
+      return NextResponse.json({ queries })
+    } catch (error) {
+      console.error('Research plan generation error:', error)
+      return NextResponse.json(
+        { error: 'Failed to generate a research plan' },
+        { status: 500 }
+      )
+    }
+  } catch (error) {
+    console.error('Research plan API error:', error)
+    return NextResponse.json(
+      { error: 'Invalid request' },
+      { status: 400 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { generateDocx, generatePdf, generatePptx } from '@/lib/documents'
+import { citationsToText, getCitedSources } from '@/lib/citations'
 import { type Report } from '@/types'
 
 export async function POST(request: Request) {
@@ -37,24 +38,29 @@ export async function POST(request: Request) {
         break
 
       case 'txt':
-      default:
+      default: {
         console.log('Generating TXT')
+        const notes = getCitedSources(report)
+          .map(({ number, source }) => `[${number}] ${source.name}. ${source.url}`)
+          .join('\n')
         content = `
 ${report.title}
 
-${report.summary}
+${citationsToText(report.summary)}
 
 ${report.sections
   .map(
     (section) => `
 ${section.title}
-${section.content}
+${citationsToText(section.content)}
 `
   )
   .join('\n')}
+${notes ? `\nNotes\n${notes}` : ''}
 `.trim()
         headers.set('Content-Type', 'text/plain')
         break
+      }
     }
 
     console.log(`Generated ${format} content, size:`, content.length)
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { fetchContentRatelimit } from '@/lib/redis'
 import { CONFIG } from '@/lib/config'
+import { extractContent } from '@/lib/content'
 
 export async function POST(request: Request) {
   try {
@@ -25,25 +26,16 @@ export async function POST(request: Request) {
     console.log('Fetching content for URL:', url)
 
     try {
-      const response = await fetch(
-        `https://r.jina.ai/${encodeURIComponent(url)}`
-      )
-
-      if (!response.ok) {
-        console.warn(`Failed to fetch content for ${url}:`, response.status)
-        return NextResponse.json(
-          { error: 'Failed to fetch content' },
-          { status: response.status }
-        )
-      }
-
-      const content = await response.text()
+      const content = await extractContent(url)
       return NextResponse.json({ content })
     } catch (error) {
       console.warn(`Error fetching content for ${url}:`, error)
+      // Surface upstream rate limits so the client can back off
+      const rateLimited =
+        error instanceof Error && error.message.includes('rate limit')
       return NextResponse.json(
         { error: 'Failed to fetch content' },
-        { status: 500 }
+        { status: rateLimited ? 429 : 502 }
       )
     }
   } catch (error) {
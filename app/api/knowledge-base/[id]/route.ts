@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { getReport, mergeEntries, requireUser } from '@/lib/knowledge-base-server'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { username, response } = await requireUser(request)
+  if (response) return response
+
+  try {
+    const { id } = await params
+    const report = await getReport(username, id)
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 })
+    }
+    return NextResponse.json({ report })
+  } catch (error) {
+    console.error('Failed to load knowledge base report:', error)
+    return NextResponse.json(
+      { error: 'Failed to load report' },
+      { status: 500 }
+    )
+  }
+}
+
+// Deletions are kept as entries without a report so they sync to other devices
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { username, response } = await requireUser(request)
+  if (response) return response
+
+  try {
+    const { id } = await params
+    await mergeEntries(username, [{ id, updatedAt: Date.now(), report: null }])
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete knowledge base report:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete report' },
+      { status: 500 }
+    )
+  }
+}
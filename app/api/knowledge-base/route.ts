@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { knowledgeBaseEntrySchema } from '@/lib/schemas'
+import {
+  getReport,
+  listReports,
+  mergeEntries,
+  requireUser,
+  toEntry,
+} from '@/lib/knowledge-base-server'
+import { type KnowledgeBaseReport } from '@/types'
+
+// The signed-in user's saved reports, newest first
+export async function GET(request: Request) {
+  const { username, response } = await requireUser(request)
+  if (response) return response
+
+  try {
+    return NextResponse.json({ reports: await listReports(username) })
+  } catch (error) {
+    console.error('Failed to list knowledge base reports:', error)
+    return NextResponse.json(
+      { error: 'Failed to load reports' },
+      { status: 500 }
+    )
+  }
+}
+
+// Save a report. A newer copy already on the server wins, and is returned instead
+export async function POST(request: Request) {
+  const { username, response } = await requireUser(request)
+  if (response) return response
+
+  try {
+    const { report } = (await request.json()) as { report: KnowledgeBaseReport }
+    const entry = knowledgeBaseEntrySchema.safeParse(report ? toEntry(report) : null)
+    if (!entry.success) {
+      return NextResponse.json(
+        { error: 'A valid knowledge base report is required' },
+        { status: 400 }
+      )
+    }
+
+    await mergeEntries(username, [entry.data])
+    return NextResponse.json({ report: await getReport(username, entry.data.id) })
+  } catch (error) {
+    console.error('Failed to save knowledge base report:', error)
+    return NextResponse.json(
+      { error: 'Failed to save report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server'
+import { CONFIG } from '@/lib/config'
+import { signInRatelimit } from '@/lib/redis'
+import {
+  endSession,
+  getCredentialsError,
+  normalizeUsername,
+  registerUser,
+  startSession,
+  verifyPassword,
+} from '@/lib/knowledge-base-server'
+
+// Sign in, or create an account first with register: true. Responds with a bearer
+// token for the other knowledge base routes
+export async function POST(request: Request) {
+  if (!CONFIG.knowledgeBase.server.enabled) {
+    return NextResponse.json(
+      { error: 'The server knowledge base is not enabled' },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const { username, password, register = false } = body as {
+      username: string
+      password: string
+      register?: boolean
+    }
+
+    const credentialsError = getCredentialsError(username, password)
+    if (credentialsError) {
+      return NextResponse.json({ error: credentialsError }, { status: 400 })
+    }
+
+    // Only check rate limit if enabled
+    if (CONFIG.rateLimits.enabled) {
+      const { success } = await signInRatelimit.limit(`sign-in:${normalizeUsername(username)}`)
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Too many sign-in attempts. Please wait a minute and try again.' },
+          { status: 429 }
+        )
+      }
+    }
+
+    if (register) {
+      if (!CONFIG.knowledgeBase.server.allowRegistration) {
+        return NextResponse.json(
+          { error: 'Registration is closed' },
+          { status: 403 }
+        )
+      }
+      if (!(await registerUser(username, password))) {
+        return NextResponse.json(
+          { error: 'That username is taken' },
+          { status: 409 }
+        )
+      }
+    } else if (!(await verifyPassword(username, password))) {
+      return NextResponse.json(
+        { error: 'Wrong username or password' },
+        { status: 401 }
+      )
+    }
+
+    const token = await startSession(username)
+    return NextResponse.json({ token, username: normalizeUsername(username) })
+  } catch (error) {
+    console.error('Knowledge base sign-in error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    )
+  }
+}
+
+// Sign out the session in the Authorization header
+export async function DELETE(request: Request) {
+  try {
+    await endSession(request)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Knowledge base sign-out error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign out' },
+      { status: 500 }
+    )
+  }
+}
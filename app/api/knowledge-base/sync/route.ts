@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { knowledgeBaseEntrySchema } from '@/lib/schemas'
+import { requireUser, syncEntries } from '@/lib/knowledge-base-server'
+
+// Two-way sync: the browser sends its changed entries (reports and deletions) and
+// the cursor from its last sync. The newer side wins for each id, and the entries
+// that changed on the server since that cursor come back with a new cursor
+export async function POST(request: Request) {
+  const { username, response } = await requireUser(request)
+  if (response) return response
+
+  try {
+    const body = await request.json()
+    const entries = z.array(knowledgeBaseEntrySchema).safeParse(body?.entries)
+    if (!entries.success) {
+      return NextResponse.json(
+        { error: 'entries must be a list of knowledge base entries' },
+        { status: 400 }
+      )
+    }
+
+    const since = typeof body.since === 'number' && body.since > 0 ? body.since : 0
+    return NextResponse.json(await syncEntries(username, entries.data, since))
+  } catch (error) {
+    console.error('Knowledge base sync error:', error)
+    return NextResponse.json(
+      { error: 'Failed to sync knowledge base' },
+      { status: 500 }
+    )
+  }
+}
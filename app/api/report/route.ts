@@ -1,230 +1,55 @@
 import { NextResponse } from 'next/server'
-import {
-  geminiModel,
-  geminiFlashModel,
-  geminiFlashThinkingModel,
-} from '@/lib/gemini'
 import { reportContentRatelimit } from '@/lib/redis'
-import { type Article } from '@/types'
+import { type Article, type Clarification, type Report, type Source } from '@/types'
 import { CONFIG } from '@/lib/config'
-import OpenAI from 'openai'
-import Anthropic from '@anthropic-ai/sdk'
-
-const MAX_RETRIES = 2;
-
-async function retryJsonParse(jsonMatch: string, retryCount = 0): Promise<any> {
-  try {
-    return JSON.parse(jsonMatch);
-  } catch (error) {
-    const parseError = error as Error;
-    console.error(`JSON parsing error (attempt ${retryCount + 1}):`, parseError);
-    console.log('Problematic JSON:', jsonMatch.substring(0, 200) + '...');
-    
-    if (retryCount < MAX_RETRIES) {
-      console.log(`Retrying JSON parse, attempt ${retryCount + 2}...`);
-      
-      // Add a small delay before retrying
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Try to clean the JSON string before parsing
-      let cleanedJson = jsonMatch
-        // Fix invalid escapes
-        .replace(/\\(?!["\\/bfnrt])/g, '\\\\')
-        // Fix unescaped quotes
-        .replace(/(?<!\\)"/g, '\\"')
-        // Fix line breaks and whitespace
-        .replace(/[\n\r]+/g, '\\n')
-        .replace(/\t/g, '\\t')
-        // Remove BOM and other unicode markers
-        .replace(/^\uFEFF/, '')
-        // Remove control characters
-        .replace(/[\u0000-\u001F]+/g, '')
-        // Fix common markdown artifacts
-        .replace(/```json\s*/, '')
-        .replace(/\s*```\s*$/, '')
-        // Handle potential trailing commas
-        .replace(/,\s*([\]}])/g, '$1')
-        // Ensure proper JSON structure
-        .trim();
-
-      // If the JSON doesn't start with { or [, wrap it
-      if (!/^[\[{]/.test(cleanedJson)) {
-        cleanedJson = '{' + cleanedJson;
-      }
-      if (!/[\]}]$/.test(cleanedJson)) {
-        cleanedJson = cleanedJson + '}';
-      }
-
-      // Log the cleaned JSON for debugging
-      console.log('Cleaned JSON:', cleanedJson.substring(0, 200) + '...');
-        
-      return retryJsonParse(cleanedJson, retryCount + 1);
-    }
-    
-    throw new Error(`Failed to parse JSON after ${MAX_RETRIES + 1} attempts: ${parseError.message}`);
-  }
-}
+import { generatedReportSchema, reportSectionSchema } from '@/lib/schemas'
+import { generateStructured, streamStructured } from '@/lib/llm/structured'
+import { citationMarkerInstructions, remapCitations, resolveCitations } from '@/lib/citations'
+import { createSSEResponse } from '@/lib/sse'
+import { verifyReport } from '@/lib/verification'
+import { fitArticlesToBudget, getSourceBudget } from '@/lib/llm/budget'
+import { formatResearchBrief, parseClarifications } from '@/lib/clarify'
+import {
+  getPlatformModelError,
+  parsePlatformModel,
+  DEFAULT_PLATFORM_MODEL,
+} from '@/lib/llm'
 
 export const maxDuration = 240 // 4 minutes changed from 60s
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-})
-
-const deepseek = new OpenAI({
-  baseURL: 'https://api.deepseek.com',
-  apiKey: process.env.DEEPSEEK_API_KEY || '',
-})
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || '',
-})
-
-type PlatformModel =
-  | 'google__gemini-flash'
-  | 'google__gemini-flash-thinking'
-  | 'google__gemini-exp'
-  | 'gpt-4o'
-  | 'o1-mini'
-  | 'o1'
-  | 'sonnet-3.5'
-  | 'haiku-3.5'
-  | 'deepseek__chat'
-  | 'deepseek__reasoner'
-
-type DeepSeekMessage = {
-  role: 'user' | 'assistant' | 'system'
-  content: string
-}
-
-async function generateWithGemini(systemPrompt: string, model: string, maxTokens: number) {
-  console.log('Calling Gemini model:', model, 'with maxOutputTokens:', maxTokens);
-  const generationConfig = { maxOutputTokens: maxTokens };
-  if (model === 'gemini-flash-thinking') {
-    const result = await geminiFlashThinkingModel.generateContent({
-      contents: [{
-        role: 'user',
-        parts: [{ text: systemPrompt }]
-      }],
-      generationConfig
-    })
-    return result.response.text()
-  } else if (model === 'gemini-exp') {
-    const result = await geminiModel.generateContent(systemPrompt)
-    return result.response.text()
-  } else {
-    const result = await geminiFlashModel.generateContent(systemPrompt)
-    return result.response.text()
-  }
-}
-
-async function generateWithOpenAI(systemPrompt: string, model: string, maxTokens: number) {
-  console.log('Calling OpenAI model:', model, 'with max_tokens:', maxTokens);
-  const response = await openai.chat.completions.create({
-    model,
-    messages: [
-      {
-        role: 'user',
-        content: systemPrompt,
-      },
-    ],
-    max_tokens: maxTokens,
-  })
-  return response.choices[0].message.content
-}
-
-async function generateWithDeepSeek(systemPrompt: string, model: string, maxTokens: number) {
-  console.log('Calling DeepSeek model:', model, 'with max_tokens:', maxTokens);
-  const maxRetries = 3;
-  let retryCount = 0;
-
-  while (retryCount < maxRetries) {
-    try {
-      // Initial message to start the conversation
-      const messages: DeepSeekMessage[] = [
-        {
-          role: 'user',
-          content: systemPrompt,
-        },
-      ]
-
-      const response = await deepseek.chat.completions.create({
-        model,
-        messages: messages as any,
-        max_tokens: maxTokens,
-      })
-
-      // Get the initial response
-      const content = response.choices[0].message.content || ''
-
-      // For the reasoner model, we can get additional reasoning content
-      let reasoning = ''
-      const messageWithReasoning = response.choices[0].message as any
-      if (
-        model === 'deepseek-reasoner' &&
-        messageWithReasoning.reasoning_content
-      ) {
-        reasoning = messageWithReasoning.reasoning_content
-        console.log('DeepSeek reasoning:', reasoning)
-      }
-
-      return content
-    } catch (error) {
-      retryCount++;
-      if (retryCount < maxRetries) {
-        const delay = Math.pow(2, retryCount) * 1000; // Exponential backoff
-        console.log(`DeepSeek API error (attempt ${retryCount}/${maxRetries}):`, error);
-        console.log(`Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      } else {
-        console.error('DeepSeek API error after all retries:', error);
-        throw error;
-      }
-    }
-  }
-  throw new Error('Failed to get response from DeepSeek API after all retries');
-}
-
-async function generateWithAnthropic(systemPrompt: string, model: string, maxTokens: number) {
-  console.log('Calling Anthropic model:', model, 'with max_tokens:', maxTokens);
-  const response = await anthropic.messages.create({
-    model,
-    max_tokens: maxTokens,
-    temperature: 0.9,
-    messages: [
-      {
-        role: 'user',
-        content: systemPrompt,
-      },
-    ],
-  })
-  return response.content[0].text || ''
-}
-
 export async function POST(request: Request) {
   try {
     const body = await request.json()
     const {
       selectedResults,
       sources,
-      prompt,
-      platformModel = 'google-gemini-flash',
+      prompt: requestPrompt,
+      platformModel = DEFAULT_PLATFORM_MODEL,
       citationStyle = 'APA 7th Edition',
       contentType = 'report',
       slideCount,
       wordCount,
-      maxTokens = 8192 // Increased default token count from 4620 to 8192
+      maxTokens = 8192, // Increased default token count from 4620 to 8192
+      verify = true,
+      clarifications,
+      stream = false,
     } = body as {
       selectedResults: Article[]
-      sources: any[]
+      sources: Source[]
       prompt: string
-      platformModel: PlatformModel
+      platformModel: string
       citationStyle?: string
       contentType?: 'report' | 'presentation'
       slideCount?: string
       wordCount?: string
       maxTokens?: number
+      verify?: boolean
+      clarifications?: Clarification[]
+      stream?: boolean
     }
+    // Fold the user's clarifications into the request the report has to address
+    const brief = formatResearchBrief(parseClarifications(clarifications))
+    const prompt = brief ? `${requestPrompt}\n\n${brief}` : requestPrompt
 
     // Validate presentation parameters
     const slideCountNum = contentType === 'presentation' 
@@ -247,33 +72,15 @@ export async function POST(request: Request) {
       }
     }
 
-    // Check if selected platform is enabled
-    const platform = platformModel.split('__')[0]
-    const model = platformModel.split('__')[1]
-
-    const platformConfig =
-      CONFIG.platforms[platform as keyof typeof CONFIG.platforms]
-    if (!platformConfig?.enabled) {
+    // Check if selected platform and model are enabled
+    const platformModelError = getPlatformModelError(platformModel)
+    if (platformModelError) {
       return NextResponse.json(
-        { error: `${platform} platform is not enabled` },
-        { status: 400 }
-      )
-    }
-
-    // Check if selected model exists and is enabled
-    const modelConfig = (platformConfig as any).models[model]
-    if (!modelConfig) {
-      return NextResponse.json(
-        { error: `${model} model does not exist` },
-        { status: 400 }
-      )
-    }
-    if (!modelConfig.enabled) {
-      return NextResponse.json(
-        { error: `${model} model is disabled` },
+        { error: platformModelError },
         { status: 400 }
       )
     }
+    const { model } = parsePlatformModel(platformModel)
 
     console.log('Received generation parameters:', {
       contentType,
@@ -374,13 +181,13 @@ Important: The JSON must contain exactly ${slideCount + 4} slides total (title +
       }
       let citationInstructions = '';
       if (citationStyle === 'APA 7th Edition') {
-        citationInstructions = `5. Use APA 7th edition in-text citations (Author, Year) when referencing sources
+        citationInstructions = `5. ${citationMarkerInstructions}
 6. Include a References section at the end listing all cited sources in alphabetical order, formatted according to APA 7th edition guidelines`;
       } else if (citationStyle === 'MLA 9th Edition') {
-        citationInstructions = `5. Use MLA 9th edition in-text citations (Author Page) when referencing sources
+        citationInstructions = `5. ${citationMarkerInstructions}
 6. Include a Works Cited section at the end listing all cited sources in alphabetical order, formatted according to MLA 9th edition guidelines`;
       } else { // IEEE
-        citationInstructions = `5. Use IEEE numerical citations [1] when referencing sources
+        citationInstructions = `5. ${citationMarkerInstructions}
 6. Include a References section at the end listing all cited sources in numerical order of appearance, formatted according to IEEE guidelines`;
       }
 
@@ -410,7 +217,8 @@ Here are the source articles to analyze:
 
 ${articles
   .map(
-    (article) => `
+    (article, index) => `
+Source [${index + 1}]
 Title: ${article.title}
 URL: ${article.url}
 Content: ${article.content}
@@ -446,8 +254,22 @@ Use markdown formatting in the content to improve readability:
 Important: Do not use phrases like "Source 1" or "According to Source 2". Instead, integrate the information naturally into the narrative or reference sources by their titles when necessary.`
     }
 
+    // Condense sources that won't fit in the model's context window
+    const promptTemplate = generateSystemPrompt(
+      [],
+      prompt,
+      citationStyle,
+      wordCountNum?.toString() || 'N/A',
+      contentType,
+      slideCountNum || 10
+    )
+    const promptArticles = await fitArticlesToBudget(platformModel, selectedResults, {
+      query: prompt,
+      budget: getSourceBudget(platformModel, promptTemplate),
+    })
+
     let systemPrompt = generateSystemPrompt(
-      selectedResults,
+      promptArticles,
       prompt,
       citationStyle,
       wordCountNum?.toString() || 'N/A',  // Use validated numeric value
@@ -464,86 +286,70 @@ Important: Do not use phrases like "Source 1" or "According to Source 2". Instea
     // console.log('Sending prompt to model:', systemPrompt)
     console.log('Model:', model)
 
-    try {
-      let response: string | null = null
-      switch (model) {
-        case 'gemini-flash':
-          response = await generateWithGemini(systemPrompt, 'gemini-flash', maxTokens || 8192)
-          break
-        case 'gemini-flash-thinking':
-          response = await generateWithGemini(
-            systemPrompt,
-            'gemini-flash-thinking',
-            maxTokens || 8192
-          )
-          break
-        case 'gemini-exp':
-          response = await generateWithGemini(systemPrompt, 'gemini-exp', maxTokens || 8192)
-          break
-        case 'gpt-4o':
-          response = await generateWithOpenAI(systemPrompt, 'gpt-4o', maxTokens)
-          break
-        case 'o1-mini':
-          response = await generateWithOpenAI(systemPrompt, 'o1-mini', maxTokens)
-          break
-        case 'o1':
-          response = await generateWithOpenAI(systemPrompt, 'o1', maxTokens)
-          break
-        case 'sonnet-3.5':
-          response = await generateWithAnthropic(
-            systemPrompt,
-            'claude-3-5-sonnet-latest',
-            maxTokens
-          )
-          break
-        case 'haiku-3.5':
-          response = await generateWithAnthropic(
-            systemPrompt,
-            'claude-3-5-haiku-latest',
-            maxTokens
-          )
-          break
-        case 'chat':
-          response = await generateWithDeepSeek(systemPrompt, 'deepseek-chat', maxTokens)
-          break
-        case 'reasoner':
-          response = await generateWithDeepSeek(
-            systemPrompt,
-            'deepseek-reasoner',
-            maxTokens
-          )
-          break
-        default:
-          throw new Error('Invalid platform/model combination')
+    // Point citation markers at the sources array, attach it and check the claims
+    const finishReport = async (generatedReport: Omit<Report, 'sources'>) => {
+      let reportData: Report = {
+        ...resolveCitations(generatedReport, selectedResults, sources),
+        sources,
       }
 
-      if (!response) {
-        throw new Error('No response from model')
+      if (CONFIG.verification.enabled && verify && contentType === 'report') {
+        console.log('Verifying report claims against sources')
+        reportData = await verifyReport(reportData, selectedResults, platformModel)
       }
+      console.log('Parsed report data:', reportData)
+      return reportData
+    }
 
-      // Extract JSON using regex
-      const jsonMatch = response.match(/\{[\s\S]*\}/)?.[0]
-      if (!jsonMatch) {
-        console.error('No JSON found in response')
-        return NextResponse.json(
-          { error: 'Invalid report format' },
-          { status: 500 }
-        )
-      }
+    if (stream) {
+      // Send the title, summary and each section as soon as the model finishes
+      // writing it, then the validated and verified report
+      return createSSEResponse(async (send) => {
+        try {
+          const generatedReport = await streamStructured(platformModel, {
+            prompt: systemPrompt,
+            schema: generatedReportSchema,
+            maxTokens: maxTokens || 8192,
+            onValue: (path, value) => {
+              if (path.length === 1 && typeof value === 'string') {
+                if (path[0] === 'title') {
+                  send('title', { title: value })
+                } else if (path[0] === 'summary') {
+                  send('summary', { summary: remapCitations(value, selectedResults, sources) })
+                }
+              } else if (path.length === 2 && path[0] === 'sections' && typeof path[1] === 'number') {
+                const section = reportSectionSchema.safeParse(value)
+                if (section.success) {
+                  send('section', {
+                    index: path[1],
+                    section: {
+                      ...section.data,
+                      content: remapCitations(section.data.content, selectedResults, sources),
+                    },
+                  })
+                }
+              }
+            },
+          })
+
+          if (CONFIG.verification.enabled && verify && contentType === 'report') {
+            send('status', { message: 'Verifying claims against sources' })
+          }
+          send('report', await finishReport(generatedReport))
+        } catch (error) {
+          console.error('Model generation error:', error)
+          send('error', { error: 'Failed to generate report content' })
+        }
+      })
+    }
 
-      try {
-        const reportData = await retryJsonParse(jsonMatch)
-        // Add sources to the report data
-        reportData.sources = sources
-        console.log('Parsed report data:', reportData)
-        return NextResponse.json(reportData)
-      } catch (parseError) {
-        console.error('Final JSON parsing error:', parseError)
-        return NextResponse.json(
-          { error: 'Failed to parse report format after retries' },
-          { status: 500 }
-        )
-      }
+    try {
+      const generatedReport = await generateStructured(platformModel, {
+        prompt: systemPrompt,
+        schema: generatedReportSchema,
+        maxTokens: maxTokens || 8192,
+      })
+      return NextResponse.json(await finishReport(generatedReport))
     } catch (error) {
       console.error('Model generation error:', error)
       return NextResponse.json(
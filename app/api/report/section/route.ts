@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server'
+import { reportContentRatelimit } from '@/lib/redis'
+import { CONFIG } from '@/lib/config'
+import { reportSchema } from '@/lib/schemas'
+import { reviseSection, SECTION_ACTIONS } from '@/lib/report-section'
+import { verifyReportSection } from '@/lib/verification'
+import { getPlatformModelError, DEFAULT_PLATFORM_MODEL } from '@/lib/llm'
+import { type Article, type SectionAction } from '@/types'
+
+export const maxDuration = 120
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+    const {
+      report: rawReport,
+      sectionIndex,
+      action,
+      instruction = '',
+      articles = [],
+      platformModel = DEFAULT_PLATFORM_MODEL,
+      contentType = 'report',
+      citationStyle = 'APA 7th Edition',
+      verify = true,
+    } = body as {
+      report: unknown
+      sectionIndex: number
+      action: SectionAction
+      instruction?: string
+      articles?: Article[]
+      platformModel?: string
+      contentType?: 'report' | 'presentation'
+      citationStyle?: string
+      verify?: boolean
+    }
+
+    const parsedReport = reportSchema.safeParse(rawReport)
+    if (!parsedReport.success) {
+      return NextResponse.json(
+        { error: 'A valid report is required' },
+        { status: 400 }
+      )
+    }
+    const report = parsedReport.data
+
+    if (!Number.isInteger(sectionIndex) || !report.sections[sectionIndex]) {
+      return NextResponse.json(
+        { error: 'Section does not exist' },
+        { status: 400 }
+      )
+    }
+    if (!SECTION_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${SECTION_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (action === 'rewrite' && !instruction.trim()) {
+      return NextResponse.json(
+        { error: 'Rewriting a section requires an instruction' },
+        { status: 400 }
+      )
+    }
+
+    const platformModelError = getPlatformModelError(platformModel)
+    if (platformModelError) {
+      return NextResponse.json(
+        { error: platformModelError },
+        { status: 400 }
+      )
+    }
+
+    // Only check rate limit if enabled
+    if (CONFIG.rateLimits.enabled) {
+      const { success } = await reportContentRatelimit.limit('section')
+      if (!success) {
+        return NextResponse.json(
+          { error: 'Too many requests' },
+          { status: 429 }
+        )
+      }
+    }
+
+    try {
+      let section = await reviseSection(platformModel, report, sectionIndex, {
+        action,
+        instruction,
+        articles,
+        contentType,
+        citationStyle,
+      })
+
+      if (CONFIG.verification.enabled && verify && contentType === 'report') {
+        console.log('Verifying revised section against sources')
+        section = await verifyReportSection(report, section, articles, platformModel)
+      }
+      return NextResponse.json({ section })
+    } catch (error) {
+      console.error('Section revision error:', error)
+      return NextResponse.json(
+        { error: 'Failed to revise section' },
+        { status: 500 }
+      )
+    }
+  } catch (error) {
+    console.error('Section API error:', error)
+    return NextResponse.json(
+      { error: 'Invalid request' },
+      { status: 400 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import { fetchContentRatelimit, getClientKey } from '@/lib/redis'
+import { CONFIG } from '@/lib/config'
+import {
+  extractUploadedFile,
+  getUploadKind,
+  SUPPORTED_UPLOAD_EXTENSIONS,
+} from '@/lib/content/upload'
+
+export async function POST(request: Request) {
+  // Only check rate limit if enabled. Keyed on the client, before the upload is
+  // parsed, so renaming the file doesn't get around it
+  if (CONFIG.rateLimits.enabled) {
+    const { success } = await fetchContentRatelimit.limit(`upload:${getClientKey(request)}`)
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Too many requests' },
+        { status: 429 }
+      )
+    }
+  }
+
+  let file: FormDataEntryValue | null
+
+  try {
+    const formData = await request.formData()
+    file = formData.get('file')
+  } catch (error) {
+    console.error('Upload parsing error:', error)
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+  }
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'File is required' }, { status: 400 })
+  }
+
+  if (!getUploadKind(file.name)) {
+    return NextResponse.json(
+      {
+        error: `Unsupported file type. Supported types: ${SUPPORTED_UPLOAD_EXTENSIONS.join(', ')}`,
+      },
+      { status: 415 }
+    )
+  }
+
+  if (file.size > CONFIG.contentExtraction.maxUploadBytes) {
+    return NextResponse.json(
+      {
+        error: `File is too large. Maximum size is ${Math.round(
+          CONFIG.contentExtraction.maxUploadBytes / (1024 * 1024)
+        )} MB`,
+      },
+      { status: 413 }
+    )
+  }
+
+  console.log('Extracting uploaded file:', file.name)
+
+  try {
+    const article = await extractUploadedFile(file)
+    if (!article.content) {
+      return NextResponse.json(
+        { error: 'No text could be extracted from this file' },
+        { status: 422 }
+      )
+    }
+    return NextResponse.json({ article })
+  } catch (error) {
+    console.warn(`Error extracting ${file.name}:`, error)
+    return NextResponse.json(
+      { error: 'Failed to extract text from file' },
+      { status: 500 }
+    )
+  }
+}
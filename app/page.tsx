@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Button } from '@/components/ui/button'
@@ -15,6 +15,8 @@ import {
   ChevronDown,
   Brain,
   Info,
+  Upload,
+  AlertTriangle,
 } from 'lucide-react'
 import {
   Select,
@@ -30,9 +32,25 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
-import type { Report } from '@/types'
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
+import type {
+  Article,
+  Clarification,
+  Report,
+  ReportSection,
+  DeepSearchEvent,
+  Learning,
+  ResearchNode,
+  SearchFilters,
+  SearchResult,
+  SectionAction,
+  SerpQuery,
+  TimeRange,
+} from '@/types'
+import {
+  ReportMarkdown,
+  ReportFootnotes,
+  VerificationSummary,
+} from '@/components/report-markdown'
 import { CONFIG } from '@/lib/config'
 import {
   Collapsible,
@@ -47,21 +65,19 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip'
 import { KnowledgeBaseSidebar } from '@/components/knowledge-base-sidebar'
+import { ClarificationDialog } from '@/components/clarification-dialog'
+import { ResearchPlanEditor } from '@/components/research-plan-editor'
+import { ResearchTree } from '@/components/research-tree'
+import { ReportChat } from '@/components/report-chat'
+import {
+  SectionMarkdownEditor,
+  SectionRevisionControls,
+} from '@/components/report-section-editor'
 import { DarkModeToggle } from '@/components/ui/dark-mode-toggle'
 import { Spinner } from '@/components/ui/spinner'
-
-type SearchResult = {
-  id: string
-  url: string
-  name: string
-  snippet: string
-  isCustomUrl?: boolean
-  metadata?: {
-    venue: string
-    year: number
-    authors: string
-  }
-}
+import { readSSE } from '@/lib/sse'
+import { rankByCredibility } from '@/lib/credibility'
+import { SEARCH_REGIONS } from '@/lib/search/filters'
 
 type PlatformModel = {
   value: string
@@ -89,6 +105,28 @@ const platformModels = Object.entries(CONFIG.platforms)
 
 const MAX_SELECTIONS = CONFIG.search.maxSelectableResults
 
+// Search types come from the provider registry in CONFIG; deep search is built on top of them
+const searchTypeOptions = [
+  ...Object.entries(CONFIG.search.searchTypes)
+    .filter(([, config]) => config.enabled)
+    .map(([value, config]) => ({
+      value,
+      label: config.label,
+      description: config.description,
+    })),
+  {
+    value: 'deep',
+    label: 'Deep',
+    description: 'Recursively refined search (slow, precise), code interpreter coming soon!',
+  },
+]
+
+const learningsText = (learnings: Learning[]) =>
+  learnings.map((learning) => learning.text).join('\n\n')
+
+// Remembers an unfinished deep research job so it can be resumed after a reload
+const DEEP_RESEARCH_JOB_KEY = 'deep_research_job'
+
 export default function Home() {
   const [query, setQuery] = useState('')
   const [results, setResults] = useState<SearchResult[]>([])
@@ -98,6 +136,14 @@ export default function Home() {
   const [generatingReport, setGeneratingReport] = useState(false)
   const [activeTab, setActiveTab] = useState('search')
   const [report, setReport] = useState<Report | null>(null)
+  const [reportStatus, setReportStatus] = useState<string | null>(null)
+  // Set when generation failed after some sections streamed in; they stay on screen
+  // but can't be saved or downloaded until the report is regenerated
+  const [reportIncomplete, setReportIncomplete] = useState(false)
+  // Source texts the current report was written from, reused when revising sections
+  const [reportArticles, setReportArticles] = useState<Article[]>([])
+  const [editingSection, setEditingSection] = useState<number | null>(null)
+  const [revisingSection, setRevisingSection] = useState<number | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [fetchStatus, setFetchStatus] = useState<{
     total: number
@@ -106,7 +152,10 @@ export default function Home() {
     sourceStatuses: Record<string, 'fetched' | 'preview'>
   }>({ total: 0, successful: 0, fallback: 0, sourceStatuses: {} })
   const [newUrl, setNewUrl] = useState('')
+  const [uploading, setUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
   const [isSourcesOpen, setIsSourcesOpen] = useState(false)
+  const [showVerification, setShowVerification] = useState(true)
   const [selectedModel, setSelectedModel] = useState<string>(
     'google__gemini-flash-thinking'
   )
@@ -120,9 +169,26 @@ export default function Home() {
   const [slideCount, setSlideCount] = useState('10')
   const [documentType, setDocumentType] = useState('report')
   const [isExpanded, setIsExpanded] = useState(false)
+  const [timeRange, setTimeRange] = useState<TimeRange>('any')
+  const [customFrom, setCustomFrom] = useState('')
+  const [customTo, setCustomTo] = useState('')
+  const [region, setRegion] = useState<string>(CONFIG.search.market)
   const [deepSearchBreadth, setDeepSearchBreadth] = useState(4)
   const [deepSearchDepth, setDeepSearchDepth] = useState(2)
   const [aiClarification, setAiClarification] = useState('allow')
+  const [clarifying, setClarifying] = useState(false)
+  const [clarifyingQuestions, setClarifyingQuestions] = useState<string[] | null>(null)
+  const [clarifications, setClarifications] = useState<Clarification[]>([])
+  const [researchTree, setResearchTree] = useState<ResearchNode[]>([])
+  const [planReview, setPlanReview] = useState('skip')
+  const [deepSearchStopping, setDeepSearchStopping] = useState(
+    CONFIG.deepResearch.adaptive.enabled ? 'adaptive' : 'fixed'
+  )
+  const [planning, setPlanning] = useState(false)
+  const [researchPlan, setResearchPlan] = useState<{
+    queries: SerpQuery[]
+    clarifications: Clarification[]
+  } | null>(null)
   const [deepSearchProgress, setDeepSearchProgress] = useState<{
     currentDepth: number
     totalDepth: number
@@ -139,6 +205,8 @@ export default function Home() {
     totalQueries: 0,
     completedQueries: 0
   })
+  const [deepSearchJobId, setDeepSearchJobId] = useState<string | null>(null)
+  const [resumableJobId, setResumableJobId] = useState<string | null>(null)
 
   interface TabGroupOption {
     value: string;
@@ -192,6 +260,11 @@ export default function Home() {
     }
   }, [searchType])
 
+  // Offer to resume a deep research job left unfinished by a previous visit
+  useEffect(() => {
+    setResumableJobId(localStorage.getItem(DEEP_RESEARCH_JOB_KEY))
+  }, [])
+
   const { toast } = useToast()
 
   // Declare timeoutId at the function level
@@ -200,14 +273,294 @@ export default function Home() {
   // Add abort controller for report generation
   const reportController = new AbortController();
 
+  // Fold a deep research progress event into the progress bars
+  const handleDeepSearchEvent = (event: DeepSearchEvent) => {
+    setDeepSearchProgress((prev) => {
+      switch (event.type) {
+        case 'queries':
+          return {
+            ...prev,
+            currentDepth: event.depth,
+            currentBreadth: event.breadth,
+            totalQueries: prev.totalQueries + event.queries.length,
+          }
+        case 'search':
+          return { ...prev, currentDepth: event.depth, currentQuery: event.query }
+        case 'learnings':
+        case 'query-error':
+        case 'query-skipped':
+          return { ...prev, completedQueries: prev.completedQueries + 1 }
+        default:
+          return prev
+      }
+    })
+  }
+
+  // Read the deep search event stream and resolve with the final result
+  const readDeepSearchStream = async (response: Response) => {
+    let result: any = null
+    let streamError: string | null = null
+
+    await readSSE(response, ({ event, data }) => {
+      if (event === 'job') {
+        setDeepSearchJobId(data.id)
+        localStorage.setItem(DEEP_RESEARCH_JOB_KEY, data.id)
+      } else if (event === 'progress') {
+        handleDeepSearchEvent(data as DeepSearchEvent)
+      } else if (event === 'result') {
+        localStorage.removeItem(DEEP_RESEARCH_JOB_KEY)
+        result = data
+      } else if (event === 'error') {
+        streamError = data.error
+      }
+    })
+
+    if (streamError) throw new Error(streamError)
+    if (!result) throw new Error('Deep search ended without a result')
+    return result
+  }
+
+  // Turn deep research learnings into a report
+  const generateDeepReport = async (data: any, reportClarifications: Clarification[]) => {
+    try {
+      console.log('Generating deep report from learnings...')
+      const reportResponse = await fetch('/api/deep-report', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          learnings: data.learnings,
+          sources: data.webPages.value.map((r: SearchResult) => ({
+            id: r.id,
+            url: r.url,
+            name: r.name
+          })),
+          prompt: `Analyze and synthesize the following learnings into a comprehensive report:\n\n${learningsText(data.learnings)}`,
+          platformModel: selectedModel,
+          citationStyle: citationStyle === 'apa' ? 'APA 7th Edition' : 
+                        citationStyle === 'mla' ? 'MLA 9th Edition' : 
+                        'IEEE',
+          contentType: documentType,
+          slideCount: documentType === 'presentation' ? parseInt(slideCount) || 10 : undefined,
+          wordCount: documentType === 'report' ? parseInt(wordCount) || 1500 : undefined,
+          clarifications: reportClarifications,
+          searchParams: {
+            depth: deepSearchDepth,
+            breadth: deepSearchBreadth
+          }
+        }),
+        signal: reportController.signal
+      })
+
+      if (!reportResponse.ok) {
+        throw new Error(`Report generation failed: ${reportResponse.statusText}`)
+      }
+
+      const reportData = await reportResponse.json()
+      console.log('Generated deep report:', reportData)
+      // The deep report was written from the learnings gathered for each page
+      setReportArticles(
+        data.webPages.value.map((r: SearchResult) => ({
+          url: r.url,
+          title: r.name,
+          content: r.snippet,
+        }))
+      )
+      setReport(reportData)
+      setReportIncomplete(false)
+      setActiveTab('report')
+    } catch (error) {
+      console.error('Deep report generation failed:', error)
+      setError(error instanceof Error ? error.message : 'Report generation failed')
+    }
+  }
+
+  // Ask the server to stop the running deep research job
+  const handleCancelDeepSearch = async () => {
+    if (!deepSearchJobId) return
+    try {
+      await fetch(`/api/deep-search/${deepSearchJobId}`, { method: 'DELETE' })
+      toast({
+        title: 'Cancelling deep search',
+        description: 'Research stops after the current query; results so far are kept',
+      })
+    } catch (error) {
+      console.error('Failed to cancel deep search:', error)
+    }
+  }
+
+  // Remember the interrupted job so the user can pick it up again
+  const handleDeepSearchInterrupted = () => {
+    const pendingJobId = localStorage.getItem(DEEP_RESEARCH_JOB_KEY)
+    if (pendingJobId) {
+      setResumableJobId(pendingJobId)
+    }
+  }
+
+  const handleDismissResume = () => {
+    localStorage.removeItem(DEEP_RESEARCH_JOB_KEY)
+    setResumableJobId(null)
+  }
+
+  // Continue a persisted deep research job from its last checkpoint
+  const handleResumeDeepSearch = async () => {
+    if (!resumableJobId) return
+
+    setLoading(true)
+    setError(null)
+    setReport(null)
+    setReportIncomplete(false)
+    setResearchTree([])
+    setSearchType('deep')
+    setResumableJobId(null)
+    setDeepSearchProgress({
+      currentDepth: deepSearchDepth,
+      totalDepth: deepSearchDepth,
+      currentBreadth: deepSearchBreadth,
+      totalBreadth: deepSearchBreadth,
+      totalQueries: 0,
+      completedQueries: 0,
+    })
+
+    try {
+      const response = await fetch(`/api/deep-search/${resumableJobId}`, {
+        method: 'POST',
+      })
+      if (!response.ok) {
+        const { error } = await response.json()
+        if (response.status === 404) {
+          localStorage.removeItem(DEEP_RESEARCH_JOB_KEY)
+        }
+        throw new Error(error || 'Failed to resume deep search')
+      }
+
+      const data = await readDeepSearchStream(response)
+      const customUrls = results.filter((r) => r.isCustomUrl)
+      const timestamp = Date.now()
+      const newResults = (data.webPages?.value || []).map((result: SearchResult) => ({
+        ...result,
+        id: `deep-${timestamp}-${result.id}`,
+      }))
+
+      setResults([...customUrls, ...newResults])
+      setSelectedResults(newResults.map((r: SearchResult) => r.id))
+      setReportPrompt(learningsText(data.learnings))
+      setResearchTree(data.tree || [])
+
+      const resumedClarifications: Clarification[] = data.clarifications || []
+      setClarifications(resumedClarifications)
+      if (!data.cancelled) {
+        await generateDeepReport(data, resumedClarifications)
+      }
+    } catch (error) {
+      console.error('Resuming deep search failed:', error)
+      setError(error instanceof Error ? error.message : 'Failed to resume deep search')
+      handleDeepSearchInterrupted()
+    } finally {
+      setDeepSearchJobId(null)
+      setLoading(false)
+    }
+  }
+
+  // Deep searches can ask clarifying questions first; the answers go along with the search
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!query.trim()) return
 
+    if (searchType !== 'deep' || aiClarification !== 'allow') {
+      await proceedToSearch([])
+      return
+    }
+
+    setClarifying(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/clarify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query, platformModel: selectedModel }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate clarifying questions')
+      }
+      setClarifyingQuestions(data.questions)
+    } catch (error) {
+      console.error('Clarification failed:', error)
+      toast({
+        title: 'Skipping clarification',
+        description: 'Could not generate clarifying questions; researching the query as written',
+      })
+      await proceedToSearch([])
+    } finally {
+      setClarifying(false)
+    }
+  }
+
+  const handleClarificationSubmit = async (answers: Clarification[]) => {
+    setClarifyingQuestions(null)
+    await proceedToSearch(answers)
+  }
+
+  const handleClarificationSkip = async () => {
+    setClarifyingQuestions(null)
+    await proceedToSearch([])
+  }
+
+  // Deep searches can stop at a generated plan for the user to review first
+  const proceedToSearch = async (searchClarifications: Clarification[]) => {
+    if (searchType === 'deep' && planReview === 'review') {
+      await requestResearchPlan(searchClarifications)
+    } else {
+      await runSearch(searchClarifications)
+    }
+  }
+
+  const requestResearchPlan = async (searchClarifications: Clarification[]) => {
+    setPlanning(true)
+    setError(null)
+    setResearchPlan(null)
+    try {
+      const response = await fetch('/api/deep-search/plan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          query,
+          searchBreadth: deepSearchBreadth,
+          platformModel: selectedModel,
+          clarifications: searchClarifications,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate a research plan')
+      }
+      setResearchPlan({ queries: data.queries, clarifications: searchClarifications })
+    } catch (error) {
+      console.error('Research planning failed:', error)
+      setError(error instanceof Error ? error.message : 'Failed to generate a research plan')
+    } finally {
+      setPlanning(false)
+    }
+  }
+
+  const handleRunResearchPlan = async (plan: SerpQuery[]) => {
+    if (!researchPlan) return
+    const { clarifications: planClarifications } = researchPlan
+    setResearchPlan(null)
+    await runSearch(planClarifications, plan)
+  }
+
+  const runSearch = async (searchClarifications: Clarification[], plan?: SerpQuery[]) => {
     setLoading(true)
     setError(null)
     setReportPrompt('')
     setReport(null)
+    setReportIncomplete(false)
+    setEditingSection(null)
+    setResearchTree([])
+    setClarifications(searchClarifications)
 
     try {
       // Store custom URLs only (we don't preserve selections on new search)
@@ -221,6 +574,15 @@ export default function Home() {
         setSelectedResults([])
       }
 
+      const filters: SearchFilters = {
+        timeRange,
+        region,
+        ...(timeRange === 'custom' && {
+          from: customFrom || undefined,
+          to: customTo || undefined,
+        }),
+      }
+
       // Use deep search API if searchType is 'deep'
       const endpoint = searchType === 'deep' ? '/api/deep-search' : '/api/search'
       const searchParams = searchType === 'deep' 
@@ -228,13 +590,30 @@ export default function Home() {
             query,
             searchDepth: deepSearchDepth,
             searchBreadth: deepSearchBreadth,
+            platformModel: selectedModel,
+            clarifications: searchClarifications,
+            adaptive: deepSearchStopping === 'adaptive',
+            ...(plan && { plan }),
+            ...filters,
           }
         : {
             query,
             searchType,
             searchDepth,
+            ...filters,
           }
 
+      if (searchType === 'deep') {
+        setDeepSearchProgress({
+          currentDepth: deepSearchDepth,
+          totalDepth: deepSearchDepth,
+          currentBreadth: plan?.length ?? deepSearchBreadth,
+          totalBreadth: plan?.length ?? deepSearchBreadth,
+          totalQueries: 0,
+          completedQueries: 0,
+        })
+      }
+
       // Add abort controller with 15-minute timeout
       const controller = new AbortController()
       timeoutId = setTimeout(() => controller.abort(), 900000) // 15 minutes
@@ -247,10 +626,12 @@ export default function Home() {
         signal: controller.signal
       })
 
-      clearTimeout(timeoutId)
+      // Read the response body ONCE; deep search streams progress before its result
+      const data = searchType === 'deep' && response.ok
+        ? await readDeepSearchStream(response)
+        : await response.json()
 
-      // Read the response body ONCE
-      const data = await response.json()
+      clearTimeout(timeoutId)
 
       // Handle successful responses even with partial data
       if (response.status === 200) {
@@ -263,7 +644,7 @@ export default function Home() {
 
         // Proceed with report generation if we have learnings
         if (data.learnings) {
-          const learningsPrompt = data.learnings.join('\n\n')
+          const learningsPrompt = learningsText(data.learnings)
           setReportPrompt(learningsPrompt)
           // ... rest of report generation code ...
         }
@@ -294,56 +675,17 @@ export default function Home() {
         // For deep search, also store learnings and generate report
         if (searchType === 'deep' && data.learnings) {
           console.log('Deep search learnings:', data.learnings)
-          const learningsPrompt = data.learnings.join('\n\n')
+          const learningsPrompt = learningsText(data.learnings)
           setReportPrompt(learningsPrompt)
+          setResearchTree(data.tree || [])
 
           // Auto-select all results for deep search
           const newSelectedIds = newResults.map((r: SearchResult) => r.id)
           setSelectedResults(newSelectedIds)
 
-          // Automatically generate report for deep search
-          try {
-            console.log('Generating deep report from learnings...')
-            const reportResponse = await fetch('/api/deep-report', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                learnings: data.learnings,
-                sources: data.webPages.value.map((r: SearchResult) => ({
-                  id: r.id,
-                  url: r.url,
-                  name: r.name
-                })),
-                prompt: `Analyze and synthesize the following learnings into a comprehensive report:\n\n${data.learnings.join('\n\n')}`,
-                platformModel: selectedModel,
-                citationStyle: citationStyle === 'apa' ? 'APA 7th Edition' : 
-                              citationStyle === 'mla' ? 'MLA 9th Edition' : 
-                              'IEEE',
-                contentType: documentType,
-                slideCount: documentType === 'presentation' ? parseInt(slideCount) || 10 : undefined,
-                wordCount: documentType === 'report' ? parseInt(wordCount) || 1500 : undefined,
-                model: selectedModel.split('__')[1],
-                searchParams: {
-                  depth: deepSearchDepth,
-                  breadth: deepSearchBreadth
-                }
-              }),
-              signal: reportController.signal
-            })
-
-            if (!reportResponse.ok) {
-              throw new Error(`Report generation failed: ${reportResponse.statusText}`)
-            }
-
-            const reportData = await reportResponse.json()
-            console.log('Generated deep report:', reportData)
-            setReport(reportData)
-            setActiveTab('report')
-          } catch (error) {
-            console.error('Deep report generation failed:', error)
-            setError(error instanceof Error ? error.message : 'Report generation failed')
+          // Automatically generate report for deep search, unless it was cancelled
+          if (!data.cancelled) {
+            await generateDeepReport(data, searchClarifications)
           }
         }
 
@@ -355,8 +697,8 @@ export default function Home() {
               ? 10 
               : 3 // Default for light
           
-          // Select from new results only, up to the count based on search depth
-          const newSelectedIds = newResults
+          // Select the most credible new results, up to the count based on search depth
+          const newSelectedIds = rankByCredibility(newResults)
             .slice(0, count)
             .map((r: SearchResult) => r.id)
           
@@ -372,10 +714,13 @@ export default function Home() {
             'Rate limit exceeded. Please wait a moment before trying again.'
           )
         }
-        throw new Error('Search failed. Please try again.')
+        throw new Error(data.error || 'Search failed. Please try again.')
       }
     } catch (error) {
       clearTimeout(timeoutId)
+      if (searchType === 'deep') {
+        handleDeepSearchInterrupted()
+      }
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
           setError('Deep search timed out after 15 minutes')
@@ -388,6 +733,7 @@ export default function Home() {
         setError('An unexpected error occurred')
       }
     } finally {
+      setDeepSearchJobId(null)
       setLoading(false)
     }
   }
@@ -427,6 +773,117 @@ export default function Home() {
     }
   }
 
+  const handleUploadFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    if (files.length === 0) return
+
+    setUploading(true)
+    setError(null)
+
+    try {
+      for (const file of files) {
+        const formData = new FormData()
+        formData.append('file', file)
+
+        const response = await fetch('/api/upload', {
+          method: 'POST',
+          body: formData,
+        })
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || `Failed to upload ${file.name}`)
+        }
+
+        const { article }: { article: Article } = data
+        const newResult: SearchResult = {
+          id: `upload-${Date.now()}-${file.name}`,
+          url: article.url,
+          name: article.title,
+          snippet: article.content.slice(0, 200),
+          isCustomUrl: true,
+          isUpload: true,
+          content: article.content,
+        }
+        setResults((prev) => [
+          newResult,
+          ...prev.filter((r) => r.url !== newResult.url),
+        ])
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Upload failed')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const replaceSection = (index: number, section: ReportSection) => {
+    setReport((prev) =>
+      prev && {
+        ...prev,
+        sections: prev.sections.map((current, i) => (i === index ? section : current)),
+      }
+    )
+  }
+
+  // Have the model redo one section from the report's sources
+  const handleReviseSection = async (
+    index: number,
+    action: SectionAction,
+    instruction: string
+  ) => {
+    if (!report) return
+
+    setRevisingSection(index)
+    setError(null)
+    try {
+      const response = await fetch('/api/report/section', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          report,
+          sectionIndex: index,
+          action,
+          instruction,
+          articles: reportArticles,
+          platformModel: selectedModel,
+          citationStyle: citationStyle === 'apa' ? 'APA 7th Edition' :
+                        citationStyle === 'mla' ? 'MLA 9th Edition' :
+                        'IEEE',
+          contentType: documentType,
+        }),
+      })
+
+      if (!response.ok) {
+        if (response.status === 429) {
+          throw new Error(
+            'Rate limit exceeded. Please wait a moment before revising again.'
+          )
+        }
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to revise section')
+      }
+
+      const { section } = await response.json()
+      replaceSection(index, section)
+    } catch (error) {
+      console.error('Section revision failed:', error)
+      setError(
+        error instanceof Error ? error.message : 'Failed to revise section'
+      )
+    } finally {
+      setRevisingSection(null)
+    }
+  }
+
+  const handleSaveSectionEdit = (index: number, section: ReportSection) => {
+    replaceSection(index, section)
+    setEditingSection(null)
+  }
+
   const handleRemoveResult = (resultId: string) => {
     setResults((prev) => prev.filter((r) => r.id !== resultId))
     setSelectedResults((prev) => prev.filter((id) => id !== resultId))
@@ -437,6 +894,7 @@ export default function Home() {
 
     setGeneratingReport(true)
     setError(null)
+    let showingPartialReport = false
     setFetchStatus({
       total: selectedResults.length,
       successful: 0,
@@ -454,6 +912,24 @@ export default function Home() {
       let hitRateLimit = false
 
       for (const article of selectedArticles) {
+        // Uploaded files were already extracted on upload
+        if (article.isUpload && article.content) {
+          contentResults.push({
+            url: article.url,
+            title: article.name,
+            content: article.content,
+          })
+          setFetchStatus((prev) => ({
+            ...prev,
+            successful: prev.successful + 1,
+            sourceStatuses: {
+              ...prev.sourceStatuses,
+              [article.url]: 'fetched',
+            },
+          }))
+          continue
+        }
+
         try {
           const response = await fetch('/api/fetch-content', {
             method: 'POST',
@@ -527,6 +1003,14 @@ export default function Home() {
         )
       }
 
+      const reportSources = results
+        .filter((r) => selectedResults.includes(r.id))
+        .map((r) => ({
+          id: r.id,
+          url: r.url,
+          name: r.name,
+        }))
+
       // Update the report generation API call
       const response = await fetch('/api/report', {
         method: 'POST',
@@ -535,13 +1019,7 @@ export default function Home() {
         },
           body: JSON.stringify({
             selectedResults: successfulResults,
-            sources: results
-              .filter((r) => selectedResults.includes(r.id))
-              .map((r) => ({
-                id: r.id,
-                url: r.url,
-                name: r.name,
-              })),
+            sources: reportSources,
             prompt: `${reportPrompt}. Provide a comprehensive analysis that synthesizes all relevant information from the provided sources.`,
             platformModel: selectedModel,
             citationStyle: citationStyle === 'apa' ? 'APA 7th Edition' : 
@@ -550,7 +1028,8 @@ export default function Home() {
             contentType: documentType,
             slideCount: documentType === 'presentation' ? parseInt(slideCount) || 10 : undefined,
             wordCount: documentType === 'report' ? parseInt(wordCount) || 1500 : undefined,
-            model: selectedModel.split('__')[1],
+            clarifications,
+            stream: true,
           }),
       })
 
@@ -569,22 +1048,70 @@ export default function Home() {
         // throw new Error('Failed to generate report. Please try again.')
       }
 
-      const data = await response.json()
+      // Show the report as it's written, then swap in the validated one
+      let data: Report | null = null
+      let streamError: string | null = null
+      const partial: Report = { title: '', summary: '', sections: [], sources: reportSources }
+      setReport(null)
+      setReportIncomplete(false)
+      setEditingSection(null)
+      setReportStatus('Writing report...')
+
+      await readSSE(response, ({ event, data: eventData }) => {
+        if (event === 'title') {
+          partial.title = eventData.title
+        } else if (event === 'summary') {
+          partial.summary = eventData.summary
+        } else if (event === 'section') {
+          partial.sections = [...partial.sections]
+          partial.sections[eventData.index] = eventData.section
+        } else if (event === 'status') {
+          setReportStatus(eventData.message)
+          return
+        } else if (event === 'report') {
+          data = eventData
+          return
+        } else if (event === 'error') {
+          streamError = eventData.error
+          return
+        } else {
+          return
+        }
+        showingPartialReport = true
+        setReport({ ...partial })
+        setActiveTab('report')
+      })
+
+      if (streamError) {
+        throw new Error(streamError)
+      }
+      if (!data) {
+        throw new Error('Report failed; retry with different options/model')
+      }
       console.log('Report data:', data)
+      setReportArticles(successfulResults)
       setReport(data)
+      setReportStatus(null)
       setActiveTab('report')
     } catch (error) {
       console.error('Report generation failed:', error)
+      // Keep the sections that made it, but don't let a half-written report be saved or downloaded
+      if (showingPartialReport) {
+        // Sections can arrive out of order, so drop any gaps left by ones that never did
+        setReport((prev) => prev && { ...prev, sections: prev.sections.filter(Boolean) })
+        setReportIncomplete(true)
+      }
       setError(
         error instanceof Error ? error.message : 'Report generation failed'
       )
     } finally {
       setGeneratingReport(false)
+      setReportStatus(null)
     }
   }
 
   const handleDownload = async (format: 'pdf' | 'docx' | 'txt' | 'pptx') => {
-    if (!report) return
+    if (!report || reportIncomplete) return
 
     try {
       const response = await fetch('/api/download', {
@@ -612,14 +1139,20 @@ export default function Home() {
     }
   }
 
-  const handleSaveToKnowledgeBase = () => {
-    if (!report) return
-    const success = addReport(report, reportPrompt)
+  const handleSaveToKnowledgeBase = async () => {
+    if (!report || reportIncomplete) return
+    const success = await addReport(report, reportPrompt, reportArticles)
     if (success) {
       toast({
         title: 'Saved to Knowledge Base',
         description: 'The report has been saved for future reference',
       })
+    } else {
+      toast({
+        title: 'Could not save report',
+        description: 'Browser storage may be full; free up space from the Knowledge Base',
+        variant: 'destructive',
+      })
     }
   }
 
@@ -679,7 +1212,7 @@ export default function Home() {
               <div 
                 className="h-full bg-[#A8A9D6] transition-all duration-300"
                 style={{ 
-                  width: `${(progress.completedQueries / progress.totalQueries) * 100}%`,
+                  width: `${(progress.completedQueries / (progress.totalQueries || 1)) * 100}%`,
                 }}
               />
             </div>
@@ -696,6 +1229,14 @@ export default function Home() {
             Current Query: {progress.currentQuery}
           </div>
         )}
+
+        {deepSearchJobId && (
+          <div className="flex justify-center mt-2">
+            <Button variant="outline" size="sm" onClick={handleCancelDeepSearch}>
+              Cancel deep search
+            </Button>
+          </div>
+        )}
       </div>
     )
   }
@@ -712,6 +1253,12 @@ export default function Home() {
   return (
     <div className='min-h-screen bg-white dark:bg-[#292a2d] p-4 sm:p-8 relative'>
       <KnowledgeBaseSidebar open={sidebarOpen} onOpenChange={setSidebarOpen} />
+      <ClarificationDialog
+        questions={clarifyingQuestions}
+        onSubmit={handleClarificationSubmit}
+        onSkip={handleClarificationSkip}
+        onCancel={() => setClarifyingQuestions(null)}
+      />
       <main className='max-w-4xl mx-auto'>
         {error && (
           <div className='mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-red-600 text-center'>
@@ -774,10 +1321,16 @@ export default function Home() {
               <div className='flex gap-2'>
                 <Button
                   type='submit'
-                  disabled={loading}
+                  disabled={loading || clarifying || planning}
                   className='shrink-0 flex-1 sm:flex-initial'
                 >
-                  {loading ? 'Searching...' : 'Search'}
+                  {clarifying
+                    ? 'Preparing questions...'
+                    : planning
+                      ? 'Planning research...'
+                      : loading
+                        ? 'Searching...'
+                        : 'Search'}
                 </Button>
               </div>
             </div>
@@ -867,18 +1420,14 @@ export default function Home() {
                     <Info className="h-4 w-4 text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 cursor-help" />
                   </TooltipTrigger>
                   <TooltipContent className="max-w-[260px] bg-black text-white text-xs p-2 border-none">
-                    <p>General: Standard search (fast)</p>
-                    <p>Academic: Peer-reviewed journals via Semantic-Scholar (Servers might be busy, search may require multiple attempts)</p>
-                    <p>Deep: Recursively refined search (slow, precise), code interpreter coming soon!</p>
+                    {searchTypeOptions.map((option) => (
+                      <p key={option.value}>{option.label}: {option.description}</p>
+                    ))}
                   </TooltipContent>
                 </Tooltip>
               </div>
               <div className="bg-gray-100 dark:bg-[#3a3b3e] p-1 rounded-lg flex gap-1">
-                {[
-                  { value: 'general', label: 'General' },
-                  { value: 'academic', label: 'Academic' },
-                  { value: 'deep', label: 'Deep' }
-                ].map((option) => (
+                {searchTypeOptions.map((option) => (
                   <button
                     key={option.value}
                     onClick={() => {
@@ -977,6 +1526,63 @@ export default function Home() {
                 </div>
               </div>
 
+              <div className="flex gap-4 mb-4">
+                {/* Time Range Section */}
+                <div className="flex flex-col gap-2 flex-shrink-0">
+                  <span className="text-sm text-gray-600 dark:text-gray-300">Time Range</span>
+                  <TabGroup
+                    options={[
+                      { value: 'any', label: 'Any time' },
+                      { value: 'day', label: 'Day' },
+                      { value: 'week', label: 'Week' },
+                      { value: 'month', label: 'Month' },
+                      { value: 'year', label: 'Year' },
+                      { value: 'custom', label: 'Custom' }
+                    ]}
+                    value={timeRange}
+                    onChange={(value) => setTimeRange(value as TimeRange)}
+                  />
+                  {timeRange === 'custom' && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="date"
+                        value={customFrom}
+                        max={customTo || undefined}
+                        onChange={(e) => setCustomFrom(e.target.value)}
+                        className="w-[150px]"
+                        aria-label="From date"
+                      />
+                      <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+                      <Input
+                        type="date"
+                        value={customTo}
+                        min={customFrom || undefined}
+                        onChange={(e) => setCustomTo(e.target.value)}
+                        className="w-[150px]"
+                        aria-label="To date"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {/* Region Section */}
+                <div className="flex flex-col gap-2 flex-1">
+                  <span className="text-sm text-gray-600 dark:text-gray-300">Region</span>
+                  <Select value={region} onValueChange={setRegion}>
+                    <SelectTrigger className="w-[200px]">
+                      <SelectValue placeholder="Select region" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SEARCH_REGIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
               {/* Deep Search Parameters Section */}
               {searchType === 'deep' && documentType === 'report' && (
                 <div className="flex gap-4 mb-4">
@@ -1024,6 +1630,47 @@ export default function Home() {
                       onChange={setAiClarification}
                     />
                   </div>
+
+                  {/* Research Plan Review Toggle */}
+                  <div className="flex flex-col gap-2 flex-1">
+                    <span className="text-sm text-gray-600 dark:text-gray-300">Review plan first?</span>
+                    <TabGroup
+                      options={[
+                        { value: 'review', label: 'Review' },
+                        { value: 'skip', label: 'Run directly' }
+                      ]}
+                      value={planReview}
+                      onChange={setPlanReview}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {searchType === 'deep' && documentType === 'report' && (
+                <div className="flex gap-4 mb-4">
+                  {/* Adaptive Stopping Toggle */}
+                  <div className="flex flex-col gap-2">
+                    <div className="flex items-center gap-1.5">
+                      <span className="text-sm text-gray-600 dark:text-gray-300">Branch stopping</span>
+                      <Tooltip delayDuration={200}>
+                        <TooltipTrigger asChild>
+                          <Info className="h-4 w-4 text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-[260px] bg-black text-white text-xs p-2 border-none">
+                          <p>Adaptive: stop following a branch once it stops turning up new information, and end the run when its query, fetch, token or time budget is used up.</p>
+                          <p>Fixed depth: follow every branch to the full depth.</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </div>
+                    <TabGroup
+                      options={[
+                        { value: 'adaptive', label: 'Adaptive' },
+                        { value: 'fixed', label: 'Fixed depth' }
+                      ]}
+                      value={deepSearchStopping}
+                      onChange={setDeepSearchStopping}
+                    />
+                  </div>
                 </div>
               )}
 
@@ -1040,6 +1687,31 @@ export default function Home() {
           )}
         </div>
 
+        {researchPlan && !loading && (
+          <ResearchPlanEditor
+            queries={researchPlan.queries}
+            maxQueries={CONFIG.deepResearch.maxPlanQueries}
+            onRun={handleRunResearchPlan}
+            onCancel={() => setResearchPlan(null)}
+          />
+        )}
+
+        {resumableJobId && !loading && (
+          <div className='mb-4 p-4 bg-gray-50 dark:bg-[#333538] rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-2'>
+            <p className='text-sm text-gray-600 dark:text-gray-300'>
+              A previous deep search didn&apos;t finish. Resume it from its last checkpoint?
+            </p>
+            <div className='flex gap-2'>
+              <Button variant='outline' size='sm' onClick={handleDismissResume}>
+                Dismiss
+              </Button>
+              <Button size='sm' onClick={handleResumeDeepSearch}>
+                Resume
+              </Button>
+            </div>
+          </div>
+        )}
+
         <DeepSearchProgress />
 
         {searchMode === 'manual' && (
@@ -1055,6 +1727,28 @@ export default function Home() {
               <Button type='submit' variant='outline' size='icon'>
                 <Plus className='h-4 w-4' />
               </Button>
+              <input
+                ref={fileInputRef}
+                type='file'
+                accept='.pdf,.docx,.md,.markdown,.txt'
+                multiple
+                className='hidden'
+                onChange={handleUploadFiles}
+              />
+              <Button
+                type='button'
+                variant='outline'
+                size='icon'
+                title='Upload PDF, DOCX, Markdown or text files'
+                disabled={uploading}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                {uploading ? (
+                  <Spinner className='h-4 w-4 animate-spin' />
+                ) : (
+                  <Upload className='h-4 w-4' />
+                )}
+              </Button>
             </form>
           </div>
         )}
@@ -1147,7 +1841,7 @@ export default function Home() {
               </div>
             </div>
 
-            <TabsList className='grid w-full grid-cols-2 mb-4 bg-gray-50 dark:bg-[#333538] p-1 rounded-lg'>
+            <TabsList className={`grid w-full ${researchTree.length > 0 ? 'grid-cols-3' : 'grid-cols-2'} mb-4 bg-gray-50 dark:bg-[#333538] p-1 rounded-lg`}>
               <TabsTrigger 
                 value='search'
                 className='data-[state=active]:bg-white data-[state=active]:text-gray-800 dark:data-[state=active]:bg-[#444548] dark:data-[state=active]:text-gray-100 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#3a3b3e]'
@@ -1161,6 +1855,14 @@ export default function Home() {
               >
                 Report
               </TabsTrigger>
+              {researchTree.length > 0 && (
+                <TabsTrigger 
+                  value='tree'
+                  className='data-[state=active]:bg-white data-[state=active]:text-gray-800 dark:data-[state=active]:bg-[#444548] dark:data-[state=active]:text-gray-100 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#3a3b3e]'
+                >
+                  Research Tree
+                </TabsTrigger>
+              )}
             </TabsList>
 
             <TabsContent value='search' className='space-y-4'>
@@ -1184,16 +1886,22 @@ export default function Home() {
                       </div>
                       <div className='flex-1 min-w-0'>
                         <div className='flex justify-between items-start'>
-                          <a
-                            href={result.url}
-                            target='_blank'
-                            rel='noopener noreferrer'
-                            className='text-[#A8A9D6] hover:underline'
-                          >
-                            <h2 className='text-xl font-semibold truncate'>
+                          {result.isUpload ? (
+                            <h2 className='text-xl font-semibold truncate text-[#A8A9D6]'>
                               {result.name}
                             </h2>
-                          </a>
+                          ) : (
+                            <a
+                              href={result.url}
+                              target='_blank'
+                              rel='noopener noreferrer'
+                              className='text-[#A8A9D6] hover:underline'
+                            >
+                              <h2 className='text-xl font-semibold truncate'>
+                                {result.name}
+                              </h2>
+                            </a>
+                          )}
                           <Button
                             variant='ghost'
                             size='sm'
@@ -1204,7 +1912,7 @@ export default function Home() {
                           </Button>
                         </div>
                         <p className='text-green-700 text-sm truncate'>
-                          {result.url}
+                          {result.isUpload ? 'Uploaded file' : result.url}
                         </p>
                         <p className='mt-1 text-gray-600 dark:text-gray-400 line-clamp-2'>
                           {result.snippet}
@@ -1239,9 +1947,25 @@ export default function Home() {
                             dangerouslySetInnerHTML={{ __html: result.name }}
                           />
                         </h2>
-                        <p className='text-green-700 text-sm truncate'>
-                          {result.url}
-                        </p>
+                        <div className='flex items-center gap-2 min-w-0'>
+                          <p className='text-green-700 text-sm truncate'>
+                            {result.url}
+                          </p>
+                          {result.credibility && (
+                            <span
+                              className={`shrink-0 rounded px-1.5 py-0.5 text-xs font-medium ${
+                                result.credibility.score >= 70
+                                  ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+                                  : result.credibility.score >= 45
+                                    ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300'
+                                    : 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300'
+                              }`}
+                              title={result.credibility.signals.join('\n') || 'No credibility signals'}
+                            >
+                              Credibility {result.credibility.score}
+                            </span>
+                          )}
+                        </div>
                         {result.metadata && (
                           <div className="mt-1 text-sm text-gray-500 dark:text-gray-400">
                             {result.metadata.authors && (
@@ -1260,6 +1984,11 @@ export default function Home() {
                                   <span className="font-medium">Year:</span> {result.metadata.year}
                                 </span>
                               )}
+                              {result.metadata.citationCount !== undefined && (
+                                <span className="ml-3">
+                                  <span className="font-medium">Citations:</span> {result.metadata.citationCount}
+                                </span>
+                              )}
                             </p>
                           </div>
                         )}
@@ -1273,6 +2002,10 @@ export default function Home() {
                 ))}
             </TabsContent>
 
+            <TabsContent value='tree'>
+              <ResearchTree nodes={researchTree} />
+            </TabsContent>
+
             <TabsContent value='report'>
               {report && (
                 <Card>
@@ -1332,13 +2065,26 @@ export default function Home() {
                       </CollapsibleContent>
                     </Collapsible>
                     <div className='flex flex-col-reverse sm:flex-row sm:justify-between sm:items-start gap-4'>
-                      
+                      {report.sections.some((section) => section.verification) ? (
+                        <label className='flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400'>
+                          <Checkbox
+                            checked={showVerification}
+                            onCheckedChange={(checked) =>
+                              setShowVerification(checked === true)
+                            }
+                          />
+                          Highlight verified claims
+                        </label>
+                      ) : (
+                        <div />
+                      )}
                       <div className='flex w-full sm:w-auto gap-2'>
                         <Button
                           variant='outline'
                           size='sm'
                           className='gap-2'
                           onClick={handleSaveToKnowledgeBase}
+                          disabled={reportStatus !== null || reportIncomplete}
                         >
                           <Brain className='h-4 w-4' />
                           Save to Knowledge Base
@@ -1349,6 +2095,7 @@ export default function Home() {
                               variant='outline'
                               size='sm'
                               className='gap-2'
+                              disabled={reportStatus !== null || reportIncomplete}
                             >
                               <Download className='h-4 w-4' />
                               Download
@@ -1381,24 +2128,81 @@ export default function Home() {
                         </DropdownMenu>
                       </div>  
                     </div>
+                    {reportIncomplete && (
+                      <div className='flex items-center gap-2 rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-950/30 px-3 py-2 text-sm text-amber-800 dark:text-amber-300'>
+                        <AlertTriangle className='h-4 w-4 shrink-0' />
+                        This report is incomplete because generation failed partway through. Generate it again to save or download it.
+                      </div>
+                    )}
                     <div>
                       <h2 className='text-3xl font-bold text-foreground mb-2'>
                         {report.title}
                       </h2>
                     </div>
-                    <p className='prose max-w-none dark:prose-invert prose-slate dark:prose-slate'>{report.summary}</p>
+                    <div className='prose max-w-none dark:prose-invert prose-slate dark:prose-slate'>
+                      <ReportMarkdown
+                        content={report.summary}
+                        sources={report.sources}
+                      />
+                    </div>
                     {report.sections.map((section, index) => (
                       <div key={index} className='space-y-2 border-t pt-4'>
-                        <h3 className='text-3xl font-bold text-foreground mb-2'>
-                          {section.title}
-                        </h3>
-                        <div className="prose max-w-none dark:prose-invert prose-slate dark:prose-slate">
-                          <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                            {section.content}
-                          </ReactMarkdown>
-                        </div>
+                        {editingSection === index ? (
+                          <SectionMarkdownEditor
+                            section={section}
+                            onSave={(edited) => handleSaveSectionEdit(index, edited)}
+                            onCancel={() => setEditingSection(null)}
+                          />
+                        ) : (
+                          <>
+                            <h3 className='text-3xl font-bold text-foreground mb-2'>
+                              {section.title}
+                            </h3>
+                            {!reportStatus && !reportIncomplete && (
+                              <SectionRevisionControls
+                                revising={revisingSection === index}
+                                disabled={revisingSection !== null}
+                                onRevise={(action, instruction) =>
+                                  handleReviseSection(index, action, instruction)
+                                }
+                                onEdit={() => setEditingSection(index)}
+                              />
+                            )}
+                            {showVerification && section.verification && (
+                              <VerificationSummary
+                                verification={section.verification}
+                              />
+                            )}
+                            <div className="prose max-w-none dark:prose-invert prose-slate dark:prose-slate">
+                              <ReportMarkdown
+                                content={section.content}
+                                sources={report.sources}
+                                claims={
+                                  showVerification
+                                    ? section.verification?.claims
+                                    : undefined
+                                }
+                              />
+                            </div>
+                          </>
+                        )}
                       </div>
                     ))}
+                    {reportStatus && (
+                      <div className='flex items-center gap-2 border-t pt-4 text-sm text-gray-500 dark:text-gray-400'>
+                        <Spinner className='h-4 w-4 text-[#A8A9D6] animate-spin' />
+                        {reportStatus}
+                      </div>
+                    )}
+                    <ReportFootnotes report={report} />
+                    {!reportStatus && !reportIncomplete && (
+                      <ReportChat
+                        key={report.title}
+                        report={report}
+                        articles={reportArticles}
+                        platformModel={selectedModel}
+                      />
+                    )}
                   </CardContent>
                 </Card>
               )}
@@ -6,15 +6,19 @@ import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { ArrowLeft, Trash2, AlertTriangle, Brain } from 'lucide-react'
 import { type KnowledgeBaseReport } from '@/types'
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
+import {
+  ReportMarkdown,
+  ReportFootnotes,
+  VerificationSummary,
+} from '@/components/report-markdown'
+import { ReportChat } from '@/components/report-chat'
 import { formatDistanceToNow } from 'date-fns'
 import { useKnowledgeBase } from '@/lib/hooks/use-knowledge-base'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 
 export function ReportContent({ id }: any) {
   const router = useRouter()
-  const { reports, deleteReport } = useKnowledgeBase()
+  const { reports, loading, deleteReport } = useKnowledgeBase()
   const [report, setReport] = useState<KnowledgeBaseReport | null>(null)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
 
@@ -25,12 +29,14 @@ export function ReportContent({ id }: any) {
     }
   }, [id, reports])
 
-  const handleDelete = () => {
+  const handleDelete = async () => {
     if (!report) return
-    deleteReport(report.id)
+    await deleteReport(report.id)
     router.push('/')
   }
 
+  if (loading) return null
+
   if (!report) {
     return (
       <div className='min-h-screen bg-background p-4 sm:p-8'>
@@ -125,17 +131,31 @@ export function ReportContent({ id }: any) {
 
           <div className="prose max-w-none dark:prose-invert prose-slate dark:prose-slate">
             <h2>Summary</h2>
-            <p>{report.report.summary}</p>
+            <ReportMarkdown
+              content={report.report.summary}
+              sources={report.report.sources}
+            />
 
             {report.report.sections.map((section, index) => (
               <div key={index}>
                 <h2>{section.title}</h2>
-                <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                  {section.content}
-                </ReactMarkdown>
+                {section.verification && (
+                  <VerificationSummary verification={section.verification} />
+                )}
+                <ReportMarkdown
+                  content={section.content}
+                  sources={report.report.sources}
+                  claims={section.verification?.claims}
+                />
               </div>
             ))}
           </div>
+          <div className='mt-6'>
+            <ReportFootnotes report={report.report} />
+          </div>
+          <div className='mt-6'>
+            <ReportChat report={report.report} articles={report.articles || []} />
+          </div>
         </Card>
       </div>
     </div>
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import type { Clarification } from '@/types'
+
+interface ClarificationDialogProps {
+  // The dialog is open while there are questions to answer
+  questions: string[] | null
+  onSubmit: (clarifications: Clarification[]) => void
+  // Research without answers
+  onSkip: () => void
+  // Closing the dialog abandons the search
+  onCancel: () => void
+}
+
+export function ClarificationDialog({
+  questions,
+  onSubmit,
+  onSkip,
+  onCancel,
+}: ClarificationDialogProps) {
+  const [answers, setAnswers] = useState<string[]>([])
+
+  useEffect(() => {
+    setAnswers(questions ? questions.map(() => '') : [])
+  }, [questions])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!questions) return
+    onSubmit(
+      questions.map((question, index) => ({
+        question,
+        answer: answers[index]?.trim() || '',
+      }))
+    )
+  }
+
+  return (
+    <Dialog open={!!questions} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className='sm:max-w-[560px]'>
+        <form onSubmit={handleSubmit} className='space-y-4'>
+          <DialogHeader>
+            <DialogTitle>A few questions before researching</DialogTitle>
+            <DialogDescription>
+              Your answers shape the search queries and the report. Leave any
+              question blank to skip it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className='space-y-4 max-h-[60vh] overflow-y-auto'>
+            {questions?.map((question, index) => (
+              <label key={index} className='block space-y-1.5'>
+                <span className='text-sm font-medium'>{question}</span>
+                <textarea
+                  value={answers[index] || ''}
+                  onChange={(e) =>
+                    setAnswers((prev) =>
+                      prev.map((answer, i) => (i === index ? e.target.value : answer))
+                    )
+                  }
+                  rows={2}
+                  className='flex w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring resize-none'
+                />
+              </label>
+            ))}
+          </div>
+          <DialogFooter className='gap-2'>
+            <Button type='button' variant='outline' onClick={onSkip}>
+              Skip
+            </Button>
+            <Button type='submit'>Start research</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
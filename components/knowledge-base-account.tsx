@@ -0,0 +1,146 @@
+import { useState, type FormEvent } from 'react'
+import { Cloud, CloudOff, RefreshCw } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { KnowledgeBaseSession } from '@/lib/knowledge-base-sync'
+import type { PendingMerge } from '@/lib/hooks/use-knowledge-base'
+
+interface KnowledgeBaseAccountProps {
+  session: KnowledgeBaseSession | null
+  syncing: boolean
+  syncError: string | null
+  lastSyncedAt: number | null
+  pendingMerge: PendingMerge | null
+  allowRegistration: boolean
+  onSignIn: (username: string, password: string, register: boolean) => Promise<void>
+  onSignOut: () => void
+  onSync: () => void
+  onResolveMerge: (merge: boolean) => Promise<void>
+}
+
+// Sign in to the server knowledge base and show how syncing is going
+export function KnowledgeBaseAccount({
+  session,
+  syncing,
+  syncError,
+  lastSyncedAt,
+  pendingMerge,
+  allowRegistration,
+  onSignIn,
+  onSignOut,
+  onSync,
+  onResolveMerge,
+}: KnowledgeBaseAccountProps) {
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async (register: boolean) => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      await onSignIn(username, password, register)
+      setPassword('')
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to sign in')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    submit(false)
+  }
+
+  if (session) {
+    return (
+      <div className='rounded-lg border p-3 space-y-2 text-sm'>
+        <div className='flex items-center justify-between gap-2'>
+          <span className='flex items-center gap-2 font-medium'>
+            <Cloud className='h-4 w-4' />
+            Synced as {session.username}
+          </span>
+          <div className='flex gap-1'>
+            <Button variant='ghost' size='sm' onClick={onSync} disabled={syncing} className='gap-1.5'>
+              <RefreshCw className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />
+              Sync now
+            </Button>
+            <Button variant='ghost' size='sm' onClick={onSignOut}>
+              Sign out
+            </Button>
+          </div>
+        </div>
+        {pendingMerge ? (
+          <div className='space-y-2'>
+            <p>
+              This browser has {pendingMerge.reports} saved report
+              {pendingMerge.reports === 1 ? '' : 's'} that aren&apos;t in {pendingMerge.username}&apos;s
+              account. Add them to it, or replace them with the account&apos;s reports?
+            </p>
+            <div className='flex gap-2'>
+              <Button size='sm' onClick={() => onResolveMerge(true)} disabled={syncing}>
+                Add to account
+              </Button>
+              <Button variant='outline' size='sm' onClick={() => onResolveMerge(false)} disabled={syncing}>
+                Replace
+              </Button>
+            </div>
+          </div>
+        ) : syncError ? (
+          <p className='text-red-600'>{syncError}</p>
+        ) : (
+          lastSyncedAt && (
+            <p className='text-gray-500 dark:text-gray-400'>
+              Last synced {formatDistanceToNow(lastSyncedAt, { addSuffix: true })}
+            </p>
+          )
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className='rounded-lg border p-3 space-y-2 text-sm'>
+      <div className='flex items-center gap-2 font-medium'>
+        <CloudOff className='h-4 w-4' />
+        Sign in to sync reports across devices
+      </div>
+      {syncError && <p className='text-red-600'>{syncError}</p>}
+      <div className='flex gap-2'>
+        <Input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder='Username'
+          autoComplete='username'
+        />
+        <Input
+          type='password'
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder='Password'
+          autoComplete='current-password'
+        />
+      </div>
+      {error && <p className='text-red-600'>{error}</p>}
+      <div className='flex gap-2'>
+        <Button type='submit' size='sm' disabled={submitting || !username || !password}>
+          Sign in
+        </Button>
+        {allowRegistration && (
+          <Button
+            type='button'
+            variant='outline'
+            size='sm'
+            onClick={() => submit(true)}
+            disabled={submitting || !username || !password}
+          >
+            Create account
+          </Button>
+        )}
+      </div>
+    </form>
+  )
+}
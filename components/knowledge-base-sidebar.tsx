@@ -1,11 +1,14 @@
-import { Brain, Search, Trash2, AlertTriangle } from 'lucide-react'
+import { Brain, Search, Trash2, AlertTriangle, HardDrive } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card } from '@/components/ui/card'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { formatDistanceToNow } from 'date-fns'
 import { useKnowledgeBase } from '@/lib/hooks/use-knowledge-base'
-import { useState } from 'react'
+import { CONFIG } from '@/lib/config'
+import { KnowledgeBaseAccount } from '@/components/knowledge-base-account'
+import { estimateReportBytes } from '@/lib/knowledge-base'
+import { useMemo, useState } from 'react'
 import {
   Sheet,
   SheetContent,
@@ -15,6 +18,16 @@ import {
 import Link from 'next/link'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 
+// Reports removed at a time by "Delete oldest"
+const EVICTION_BATCH = 5
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+}
+
 interface KnowledgeBaseSidebarProps {
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -24,11 +37,33 @@ export function KnowledgeBaseSidebar({
   open,
   onOpenChange,
 }: KnowledgeBaseSidebarProps) {
-  const { reports, searchReports, clearAllReports } = useKnowledgeBase()
+  const {
+    reports,
+    usage,
+    searchReports,
+    deleteReport,
+    clearAllReports,
+    deleteOldestReports,
+    dropSourceTexts,
+    session,
+    syncing,
+    syncError,
+    lastSyncedAt,
+    pendingMerge,
+    resolveMerge,
+    signIn,
+    signOut,
+    syncNow,
+  } = useKnowledgeBase()
   const [searchQuery, setSearchQuery] = useState('')
   const [showClearConfirm, setShowClearConfirm] = useState(false)
 
   const filteredReports = searchQuery ? searchReports(searchQuery) : reports
+  const reportSizes = useMemo(
+    () => new Map(reports.map((report) => [report.id, estimateReportBytes(report)])),
+    [reports]
+  )
+  const hasSourceTexts = reports.some((report) => report.articles?.length)
 
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
@@ -42,6 +77,20 @@ export function KnowledgeBaseSidebar({
           </div>
         </SheetHeader>
         <div className='mt-8 space-y-4'>
+          {CONFIG.knowledgeBase.server.enabled && (
+            <KnowledgeBaseAccount
+              session={session}
+              syncing={syncing}
+              syncError={syncError}
+              lastSyncedAt={lastSyncedAt}
+              pendingMerge={pendingMerge}
+              onResolveMerge={resolveMerge}
+              allowRegistration={CONFIG.knowledgeBase.server.allowRegistration}
+              onSignIn={signIn}
+              onSignOut={signOut}
+              onSync={syncNow}
+            />
+          )}
           {showClearConfirm && (
             <Alert variant='destructive'>
               <AlertTriangle className='h-4 w-4' />
@@ -84,6 +133,54 @@ export function KnowledgeBaseSidebar({
               </AlertDescription>
             </Alert>
           )}
+
+          {usage && reports.length > 0 && !showClearConfirm && (
+            <div className='rounded-lg border p-3 space-y-2 text-sm'>
+              <div className='flex items-center gap-2 font-medium'>
+                <HardDrive className='h-4 w-4' />
+                Storage
+              </div>
+              <p className='text-gray-600 dark:text-gray-400'>
+                Reports use about {formatBytes(usage.reportBytes)}
+                {usage.usage !== null && usage.quota
+                  ? `; this site uses ${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} available`
+                  : ''}
+                .
+              </p>
+              {usage.usage !== null && usage.quota ? (
+                <div className='h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden'>
+                  <div
+                    className='h-full bg-[#A8A9D6]'
+                    style={{ width: `${Math.min((usage.usage / usage.quota) * 100, 100)}%` }}
+                  />
+                </div>
+              ) : null}
+              <div className='flex flex-wrap gap-2 pt-1'>
+                {hasSourceTexts && (
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    onClick={dropSourceTexts}
+                    title='Keeps the reports; follow-up questions then only use the report text'
+                  >
+                    Remove saved source texts
+                  </Button>
+                )}
+                <Button
+                  variant='outline'
+                  size='sm'
+                  onClick={() => deleteOldestReports(EVICTION_BATCH)}
+                >
+                  Delete oldest {Math.min(EVICTION_BATCH, reports.length)}
+                </Button>
+              </div>
+              {session && (
+                <p className='text-gray-500 dark:text-gray-400'>
+                  These only free space in this browser; the synced copies stay on the server.
+                </p>
+              )}
+            </div>
+          )}
           <div className='relative'>
             <Input
               type='text'
@@ -116,8 +213,18 @@ export function KnowledgeBaseSidebar({
                         {formatDistanceToNow(savedReport.timestamp, {
                           addSuffix: true,
                         })}
+                        {' · '}
+                        {formatBytes(reportSizes.get(savedReport.id) ?? 0)}
                       </p>
                     </Link>
+                    <Button
+                      variant='ghost'
+                      size='icon'
+                      onClick={() => deleteReport(savedReport.id)}
+                      aria-label={`Delete ${savedReport.report.title}`}
+                    >
+                      <Trash2 className='h-4 w-4 text-muted-foreground' />
+                    </Button>
                   </div>
                 </Card>
               ))}
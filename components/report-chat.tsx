@@ -0,0 +1,137 @@
+import { useState, type FormEvent } from 'react'
+import { MessageSquare, Send } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Spinner } from '@/components/ui/spinner'
+import { ReportMarkdown } from '@/components/report-markdown'
+import { readSSE } from '@/lib/sse'
+import type { Article, ChatMessage, Report } from '@/types'
+
+interface ReportChatProps {
+  report: Report
+  articles: Article[]
+  // Defaults to the server's default model when omitted
+  platformModel?: string
+}
+
+// Follow-up questions about a report, answered from its sources with citations
+// that link to the report's footnotes
+export function ReportChat({ report, articles, platformModel }: ReportChatProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [question, setQuestion] = useState('')
+  const [answering, setAnswering] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const appendToAnswer = (text: string) => {
+    setMessages((prev) => {
+      const last = prev[prev.length - 1]
+      return [...prev.slice(0, -1), { ...last, content: last.content + text }]
+    })
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!question.trim() || answering) return
+
+    const history: ChatMessage[] = [...messages, { role: 'user', content: question.trim() }]
+    setMessages([...history, { role: 'assistant', content: '' }])
+    setQuestion('')
+    setAnswering(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          report,
+          articles,
+          messages: history,
+          platformModel,
+        }),
+      })
+
+      if (!response.ok) {
+        if (response.status === 429) {
+          throw new Error('Rate limit exceeded. Please wait a moment before asking again.')
+        }
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to answer question')
+      }
+
+      let streamError: string | null = null
+      await readSSE(response, ({ event, data }) => {
+        if (event === 'delta') {
+          appendToAnswer(data.text)
+        } else if (event === 'error') {
+          streamError = data.error
+        }
+      })
+      if (streamError) throw new Error(streamError)
+    } catch (error) {
+      console.error('Report chat failed:', error)
+      setError(error instanceof Error ? error.message : 'Failed to answer question')
+      // Drop the unanswered exchange so it isn't sent as history next time
+      setMessages(messages)
+      setQuestion(history[history.length - 1].content)
+    } finally {
+      setAnswering(false)
+    }
+  }
+
+  return (
+    <div className='space-y-4 border-t pt-4'>
+      <div className='flex items-center gap-2'>
+        <MessageSquare className='h-5 w-5 text-[#A8A9D6]' />
+        <h3 className='text-lg font-semibold'>Ask about this report</h3>
+      </div>
+      {articles.length === 0 && (
+        <p className='text-sm text-gray-500 dark:text-gray-400'>
+          The source texts for this report weren&apos;t kept, so answers can only draw on the report itself.
+        </p>
+      )}
+
+      {messages.length > 0 && (
+        <div className='space-y-3'>
+          {messages.map((message, index) =>
+            message.role === 'user' ? (
+              <div key={index} className='flex justify-end'>
+                <p className='max-w-[85%] rounded-lg bg-[#A8A9D6]/20 px-3 py-2 text-sm'>
+                  {message.content}
+                </p>
+              </div>
+            ) : (
+              <div
+                key={index}
+                className='prose prose-sm max-w-none dark:prose-invert prose-slate dark:prose-slate rounded-lg bg-gray-50 dark:bg-[#333538] px-3 py-2'
+              >
+                {message.content ? (
+                  <ReportMarkdown content={message.content} sources={report.sources} />
+                ) : (
+                  <Spinner className='h-4 w-4 text-[#A8A9D6] animate-spin' />
+                )}
+              </div>
+            )
+          )}
+        </div>
+      )}
+
+      {error && <p className='text-sm text-red-600'>{error}</p>}
+
+      <form onSubmit={handleSubmit} className='flex gap-2'>
+        <Input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder='e.g. What did source 3 say about pricing?'
+          disabled={answering}
+        />
+        <Button type='submit' disabled={answering || !question.trim()} className='gap-2'>
+          <Send className='h-4 w-4' />
+          Ask
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import {
+  type ClaimVerdict,
+  type Report,
+  type SectionVerification,
+  type Source,
+  type VerifiedClaim,
+} from '@/types'
+import { getCitedSources, splitCitations } from '@/lib/citations'
+
+const CITATION_HREF = '#cite-'
+const CLAIM_HREF = '#claim-'
+
+const verdictStyles: Record<ClaimVerdict, string> = {
+  supported: 'bg-green-100 dark:bg-green-900/40',
+  contradicted: 'bg-red-100 dark:bg-red-900/40',
+  unsupported: 'bg-yellow-100 dark:bg-yellow-900/40',
+}
+
+const verdictBadgeStyles: Record<ClaimVerdict, string> = {
+  supported: 'bg-green-100 text-green-700',
+  contradicted: 'bg-red-100 text-red-700',
+  unsupported: 'bg-yellow-50 text-yellow-600',
+}
+
+const footnoteId = (number: number) => `footnote-${number}`
+
+// Uploaded files have no page to open
+const isLinkable = (source: Source) => !source.url.startsWith('upload://')
+
+// Turn [^n] markers into links the custom anchor renderer picks up
+function linkCitations(content: string, sources: Source[]): string {
+  return splitCitations(content, sources)
+    .map(segment =>
+      segment.type === 'text'
+        ? segment.text
+        : `[${segment.number}](${CITATION_HREF}${segment.number})`
+    )
+    .join('')
+}
+
+// Wrap the first verbatim occurrence of each claim in a link the anchor renderer highlights.
+// Claims containing markdown syntax or overlapping an earlier claim are left unmarked
+function highlightClaims(content: string, claims: VerifiedClaim[]): string {
+  const matches = claims
+    .map((claim, index) => {
+      const claimText = claim.claim.trim()
+      const start = claimText && !/[\[\]*_`\n]/.test(claimText) ? content.indexOf(claimText) : -1
+      return { index, start, end: start + claimText.length }
+    })
+    .filter(match => match.start !== -1)
+    .sort((a, b) => a.start - b.start)
+
+  let result = ''
+  let lastEnd = 0
+  for (const match of matches) {
+    if (match.start < lastEnd) continue
+    result += `${content.slice(lastEnd, match.start)}[${content.slice(match.start, match.end)}](${CLAIM_HREF}${match.index})`
+    lastEnd = match.end
+  }
+  return result + content.slice(lastEnd)
+}
+
+interface ReportMarkdownProps {
+  content: string
+  sources: Source[]
+  claims?: VerifiedClaim[]
+}
+
+export function ReportMarkdown({ content, sources, claims }: ReportMarkdownProps) {
+  const components: Components = {
+    a: ({ href, title, children }) => {
+      if (claims && href?.startsWith(CLAIM_HREF)) {
+        const claim = claims[Number(href.slice(CLAIM_HREF.length))]
+        if (claim) {
+          return (
+            <mark
+              className={`${verdictStyles[claim.verdict]} text-inherit rounded px-0.5`}
+              title={`${claim.verdict}: ${claim.explanation}`}
+            >
+              {children}
+            </mark>
+          )
+        }
+      }
+      if (href?.startsWith(CITATION_HREF)) {
+        const number = Number(href.slice(CITATION_HREF.length))
+        const source = sources[number - 1]
+        return (
+          <sup>
+            <a
+              href={`#${footnoteId(number)}`}
+              title={source?.name}
+              className='text-[#A8A9D6] no-underline hover:underline'
+            >
+              [{children}]
+            </a>
+          </sup>
+        )
+      }
+      return (
+        <a href={href} title={title}>
+          {children}
+        </a>
+      )
+    },
+  }
+
+  return (
+    <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+      {linkCitations(claims ? highlightClaims(content, claims) : content, sources)}
+    </ReactMarkdown>
+  )
+}
+
+// Numbered list of the sources cited in the report, targets for the inline markers
+export function ReportFootnotes({ report }: { report: Report }) {
+  const cited = getCitedSources(report)
+  if (cited.length === 0) return null
+
+  return (
+    <div className='border-t pt-4'>
+      <h3 className='text-lg font-semibold text-foreground mb-2'>Footnotes</h3>
+      <ol className='space-y-1 text-sm text-gray-600 dark:text-gray-400 list-none pl-0'>
+        {cited.map(({ number, source }) => (
+          <li key={number} id={footnoteId(number)} className='scroll-mt-4'>
+            <span className='mr-2'>[{number}]</span>
+            {isLinkable(source) ? (
+              <a
+                href={source.url}
+                target='_blank'
+                rel='noopener noreferrer'
+                className='text-[#A8A9D6] hover:underline break-all'
+              >
+                {source.name}
+              </a>
+            ) : (
+              <span>{source.name}</span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+// Per-verdict claim counts for a verified section
+export function VerificationSummary({ verification }: { verification: SectionVerification }) {
+  const counts = verification.claims.reduce<Record<ClaimVerdict, number>>(
+    (acc, claim) => ({ ...acc, [claim.verdict]: acc[claim.verdict] + 1 }),
+    { supported: 0, contradicted: 0, unsupported: 0 }
+  )
+
+  return (
+    <div className='flex flex-wrap gap-2 text-xs'>
+      {(Object.keys(counts) as ClaimVerdict[])
+        .filter(verdict => counts[verdict] > 0)
+        .map(verdict => (
+          <span key={verdict} className={`px-1.5 py-0.5 rounded ${verdictBadgeStyles[verdict]}`}>
+            {counts[verdict]} {verdict}
+          </span>
+        ))}
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react'
+import { Pencil, Wand2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Spinner } from '@/components/ui/spinner'
+import type { ReportSection, SectionAction } from '@/types'
+
+const actionLabels: Record<SectionAction, string> = {
+  regenerate: 'Regenerate',
+  expand: 'Expand',
+  shorten: 'Shorten',
+  rewrite: 'Rewrite',
+}
+
+interface SectionRevisionControlsProps {
+  revising: boolean
+  disabled: boolean
+  onRevise: (action: SectionAction, instruction: string) => void
+  onEdit: () => void
+}
+
+// Per-section toolbar: have the model revise the section, optionally with an
+// instruction, or open it for hand editing
+export function SectionRevisionControls({
+  revising,
+  disabled,
+  onRevise,
+  onEdit,
+}: SectionRevisionControlsProps) {
+  const [open, setOpen] = useState(false)
+  const [instruction, setInstruction] = useState('')
+
+  return (
+    <div className='space-y-2'>
+      <div className='flex items-center gap-2'>
+        <Button
+          variant='ghost'
+          size='sm'
+          className='gap-1.5 text-gray-600 dark:text-gray-400'
+          onClick={() => setOpen((prev) => !prev)}
+          disabled={disabled}
+        >
+          <Wand2 className='h-4 w-4' />
+          Revise
+        </Button>
+        <Button
+          variant='ghost'
+          size='sm'
+          className='gap-1.5 text-gray-600 dark:text-gray-400'
+          onClick={onEdit}
+          disabled={disabled}
+        >
+          <Pencil className='h-4 w-4' />
+          Edit
+        </Button>
+        {revising && <Spinner className='h-4 w-4 text-[#A8A9D6] animate-spin' />}
+      </div>
+
+      {open && (
+        <div className='flex flex-col sm:flex-row gap-2'>
+          <Input
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder='Instruction, e.g. "focus on costs" (required for Rewrite)'
+            className='flex-1'
+            disabled={disabled}
+          />
+          <div className='flex gap-2'>
+            {(Object.keys(actionLabels) as SectionAction[]).map((action) => (
+              <Button
+                key={action}
+                variant='outline'
+                size='sm'
+                onClick={() => onRevise(action, instruction)}
+                disabled={disabled || (action === 'rewrite' && !instruction.trim())}
+              >
+                {actionLabels[action]}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface SectionMarkdownEditorProps {
+  section: ReportSection
+  onSave: (section: ReportSection) => void
+  onCancel: () => void
+}
+
+// Hand-edit a section's title and markdown; [^n] citation markers are kept as typed
+export function SectionMarkdownEditor({
+  section,
+  onSave,
+  onCancel,
+}: SectionMarkdownEditorProps) {
+  const [title, setTitle] = useState(section.title)
+  const [content, setContent] = useState(section.content)
+
+  const changed = title !== section.title || content !== section.content
+
+  return (
+    <div className='space-y-2'>
+      <Input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        aria-label='Section title'
+        className='font-semibold'
+      />
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        rows={Math.min(Math.max(content.split('\n').length + 2, 8), 30)}
+        aria-label='Section content'
+        className='flex w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring'
+      />
+      <div className='flex justify-end gap-2'>
+        <Button variant='outline' size='sm' onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          size='sm'
+          onClick={() =>
+            // Hand edits invalidate any claim verification of the old text
+            onSave({ title: title.trim() || section.title, content })
+          }
+          disabled={!changed}
+        >
+          Save changes
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent } from '@/components/ui/card'
+import type { SerpQuery } from '@/types'
+
+interface ResearchPlanEditorProps {
+  queries: SerpQuery[]
+  maxQueries: number
+  onRun: (plan: SerpQuery[]) => void
+  onCancel: () => void
+}
+
+export function ResearchPlanEditor({
+  queries,
+  maxQueries,
+  onRun,
+  onCancel,
+}: ResearchPlanEditorProps) {
+  const [plan, setPlan] = useState<SerpQuery[]>(queries)
+
+  const updateQuery = (index: number, changes: Partial<SerpQuery>) => {
+    setPlan((prev) =>
+      prev.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    )
+  }
+
+  const approvedPlan = plan
+    .map((item) => ({ query: item.query.trim(), researchGoal: item.researchGoal.trim() }))
+    .filter((item) => item.query)
+
+  return (
+    <Card className='mb-4'>
+      <CardContent className='p-4 space-y-4'>
+        <div>
+          <h2 className='text-lg font-semibold'>Research plan</h2>
+          <p className='text-sm text-gray-600 dark:text-gray-400'>
+            Each query is searched and followed up to the configured depth. Edit,
+            remove or add queries, then run the plan.
+          </p>
+        </div>
+
+        <div className='space-y-3'>
+          {plan.map((item, index) => (
+            <div key={index} className='flex gap-2 items-start'>
+              <span className='pt-2 text-sm text-gray-500 dark:text-gray-400 w-5 shrink-0'>
+                {index + 1}.
+              </span>
+              <div className='flex-1 space-y-1.5'>
+                <Input
+                  value={item.query}
+                  onChange={(e) => updateQuery(index, { query: e.target.value })}
+                  placeholder='Search query'
+                  aria-label={`Query ${index + 1}`}
+                />
+                <Input
+                  value={item.researchGoal}
+                  onChange={(e) => updateQuery(index, { researchGoal: e.target.value })}
+                  placeholder='What this query should find out'
+                  aria-label={`Research goal ${index + 1}`}
+                  className='text-sm text-gray-600 dark:text-gray-400'
+                />
+              </div>
+              <Button
+                variant='ghost'
+                size='icon'
+                onClick={() => setPlan((prev) => prev.filter((_, i) => i !== index))}
+                aria-label={`Remove query ${index + 1}`}
+              >
+                <Trash2 className='h-4 w-4' />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className='flex flex-col sm:flex-row sm:items-center justify-between gap-2'>
+          <Button
+            variant='outline'
+            size='sm'
+            onClick={() => setPlan((prev) => [...prev, { query: '', researchGoal: '' }])}
+            disabled={plan.length >= maxQueries}
+          >
+            <Plus className='h-4 w-4 mr-1' />
+            Add query
+          </Button>
+          <div className='flex gap-2'>
+            <Button variant='outline' size='sm' onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              size='sm'
+              onClick={() => onRun(approvedPlan)}
+              disabled={approvedPlan.length === 0}
+            >
+              Run plan ({approvedPlan.length} {approvedPlan.length === 1 ? 'query' : 'queries'})
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
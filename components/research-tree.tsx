@@ -0,0 +1,232 @@
+import { useMemo, useState, type ReactNode } from 'react'
+import {
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  Circle,
+  Loader2,
+  XCircle,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { BranchStopReason, ResearchNode, ResearchNodeStatus } from '@/types'
+
+interface ResearchTreeProps {
+  nodes: ResearchNode[]
+}
+
+const statusIcons: Record<ResearchNodeStatus, ReactNode> = {
+  pending: <Circle className='h-4 w-4 text-gray-400' />,
+  running: <Loader2 className='h-4 w-4 text-[#A8A9D6] animate-spin' />,
+  completed: <CheckCircle2 className='h-4 w-4 text-green-600' />,
+  failed: <XCircle className='h-4 w-4 text-red-600' />,
+}
+
+const stopReasonLabels: Record<BranchStopReason, string> = {
+  'max-depth': 'Reached maximum depth',
+  'no-follow-ups': 'No follow-up questions',
+  'low-novelty': 'Little new information',
+  'query-budget': 'Query budget used up',
+  'fetch-budget': 'Fetch budget used up',
+  'token-budget': 'Token budget used up',
+  'time-budget': 'Time budget used up',
+  'cancelled': 'Cancelled',
+  'failed': 'Failed',
+}
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+// Render deep research as the tree of queries it ran: each node can be opened to
+// show its goal, sources, learnings and follow-ups, and each branch can be folded
+export function ResearchTree({ nodes }: ResearchTreeProps) {
+  const [openNodes, setOpenNodes] = useState<Set<string>>(new Set())
+  const [foldedBranches, setFoldedBranches] = useState<Set<string>>(new Set())
+
+  const childrenByParent = useMemo(() => {
+    const map = new Map<string | null, ResearchNode[]>()
+    for (const node of nodes) {
+      map.set(node.parentId, [...(map.get(node.parentId) || []), node])
+    }
+    return map
+  }, [nodes])
+
+  const toggle = (set: Set<string>, id: string) => {
+    const next = new Set(set)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    return next
+  }
+
+  const renderNode = (node: ResearchNode) => {
+    const children = childrenByParent.get(node.id) || []
+    const isOpen = openNodes.has(node.id)
+    const isFolded = foldedBranches.has(node.id)
+
+    return (
+      <li key={node.id} className='relative'>
+        <div className='flex items-start gap-1'>
+          {children.length > 0 ? (
+            <button
+              onClick={() => setFoldedBranches((prev) => toggle(prev, node.id))}
+              className='mt-2 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200'
+              aria-label={isFolded ? 'Expand branch' : 'Collapse branch'}
+            >
+              {isFolded ? <ChevronRight className='h-4 w-4' /> : <ChevronDown className='h-4 w-4' />}
+            </button>
+          ) : (
+            <span className='w-4 shrink-0' />
+          )}
+
+          <div className='flex-1 min-w-0 rounded-md border bg-white dark:bg-[#2a2b2e] dark:border-gray-700'>
+            <button
+              onClick={() => setOpenNodes((prev) => toggle(prev, node.id))}
+              className='w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-[#333538] rounded-md'
+            >
+              <span className='shrink-0'>{statusIcons[node.status]}</span>
+              <span className='flex-1 min-w-0 font-medium truncate'>{node.query}</span>
+              <span className='shrink-0 text-xs text-gray-500 dark:text-gray-400'>
+                {node.urls.length} source{node.urls.length === 1 ? '' : 's'} · {node.learnings.length} learning
+                {node.learnings.length === 1 ? '' : 's'}
+                {node.stopReason && node.stopReason !== 'max-depth' && (
+                  <> · {stopReasonLabels[node.stopReason]}</>
+                )}
+              </span>
+            </button>
+
+            {isOpen && (
+              <div className='px-3 pb-3 space-y-3 text-sm border-t dark:border-gray-700 pt-3'>
+                {node.researchGoal && (
+                  <div>
+                    <h4 className='font-medium text-gray-700 dark:text-gray-300'>Research goal</h4>
+                    <p className='text-gray-600 dark:text-gray-400'>{node.researchGoal}</p>
+                  </div>
+                )}
+                {node.error && (
+                  <p className='text-red-600'>{node.error}</p>
+                )}
+                {(node.novelty !== undefined || node.stopReason) && (
+                  <p className='text-gray-600 dark:text-gray-400'>
+                    {node.novelty !== undefined && (
+                      <span className='mr-3'>
+                        <span className='font-medium'>Novelty:</span> {Math.round(node.novelty * 100)}%
+                      </span>
+                    )}
+                    {node.stopReason && (
+                      <span>
+                        <span className='font-medium'>Stopped:</span> {stopReasonLabels[node.stopReason]}
+                      </span>
+                    )}
+                  </p>
+                )}
+                {node.urls.length > 0 && (
+                  <div>
+                    <h4 className='font-medium text-gray-700 dark:text-gray-300'>Sources</h4>
+                    <ul className='list-disc pl-5 space-y-0.5'>
+                      {node.urls.map((url) => (
+                        <li key={url} className='truncate'>
+                          <a
+                            href={url}
+                            target='_blank'
+                            rel='noopener noreferrer'
+                            className='text-[#A8A9D6] hover:underline'
+                          >
+                            {url}
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {node.learnings.length > 0 && (
+                  <div>
+                    <h4 className='font-medium text-gray-700 dark:text-gray-300'>Learnings</h4>
+                    <ul className='list-disc pl-5 space-y-1 text-gray-600 dark:text-gray-400'>
+                      {node.learnings.map((learning, index) => (
+                        <li key={index}>
+                          {learning.text}
+                          {learning.urls.map((url) => (
+                            <a
+                              key={url}
+                              href={url}
+                              target='_blank'
+                              rel='noopener noreferrer'
+                              title={url}
+                              className='ml-1.5 text-xs text-[#A8A9D6] hover:underline'
+                            >
+                              [{hostname(url)}]
+                            </a>
+                          ))}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {node.followUpQuestions.length > 0 && (
+                  <div>
+                    <h4 className='font-medium text-gray-700 dark:text-gray-300'>Follow-up questions</h4>
+                    <ul className='list-disc pl-5 space-y-1 text-gray-600 dark:text-gray-400'>
+                      {node.followUpQuestions.map((question, index) => (
+                        <li key={index}>{question}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {children.length > 0 && !isFolded && (
+          <ul className='ml-2 mt-2 pl-4 border-l-2 border-[#A8A9D6]/40 space-y-2'>
+            {children.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    )
+  }
+
+  const roots = childrenByParent.get(null) || []
+  if (roots.length === 0) {
+    return (
+      <p className='text-center text-gray-500 dark:text-gray-400'>
+        No research tree available
+      </p>
+    )
+  }
+
+  return (
+    <div className='space-y-3'>
+      <div className='flex justify-end gap-2'>
+        <Button
+          variant='outline'
+          size='sm'
+          onClick={() => {
+            setOpenNodes(new Set(nodes.map((node) => node.id)))
+            setFoldedBranches(new Set())
+          }}
+        >
+          Expand all
+        </Button>
+        <Button
+          variant='outline'
+          size='sm'
+          onClick={() => {
+            setOpenNodes(new Set())
+            setFoldedBranches(new Set())
+          }}
+        >
+          Collapse all
+        </Button>
+      </div>
+      <ul className='space-y-2'>{roots.map(renderNode)}</ul>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import { articlesForSources, citationMarkerInstructions } from '@/lib/citations'
+import { fitArticlesToBudget, getSourceBudget } from '@/lib/llm/budget'
+import { generateStream } from '@/lib/llm'
+import { type Article, type ChatMessage, type Report } from '@/types'
+
+// Earlier turns beyond this are dropped from the prompt
+const MAX_HISTORY_MESSAGES = 12
+
+// Keep only well-formed messages from a request body
+export function parseChatMessages(value: unknown): ChatMessage[] {
+  if (!Array.isArray(value)) return []
+  return value.filter(
+    (item): item is ChatMessage =>
+      (item?.role === 'user' || item?.role === 'assistant') && typeof item?.content === 'string'
+  )
+}
+
+function chatPrompt(report: Report, articles: Article[], messages: ChatMessage[]): string {
+  const history = messages.slice(-MAX_HISTORY_MESSAGES, -1)
+  const question = messages[messages.length - 1]?.content ?? ''
+
+  return `You are a research assistant answering follow-up questions about a report you wrote. Answer from the numbered sources below and the report itself. If the sources don't answer the question, say so rather than guessing. Keep answers focused and use markdown where it helps.
+
+${citationMarkerInstructions}.
+
+Report:
+<report title="${report.title}">
+${report.summary}
+
+${report.sections.map(section => `## ${section.title}\n${section.content}`).join('\n\n')}
+</report>
+
+Sources:
+${articles.map((article, i) => `
+[${i + 1}] ${article.title}
+URL: ${article.url}
+Content: ${article.content || '(content not available)'}
+`).join('\n')}
+${history.length > 0 ? `
+Conversation so far:
+${history.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`).join('\n\n')}
+` : ''}
+User question: ${question}`
+}
+
+// Stream an answer to the last user message, citing the report's sources with
+// the same [^n] numbering as the report
+export async function* streamChatAnswer(
+  platformModel: string,
+  { report, articles, messages }: { report: Report; articles: Article[]; messages: ChatMessage[] }
+): AsyncGenerator<string> {
+  const question = messages[messages.length - 1]?.content ?? ''
+  const numberedArticles = articlesForSources(report.sources, articles)
+
+  // Condense sources that won't fit in the model's context window
+  const promptTemplate = chatPrompt(report, [], messages)
+  const promptArticles = await fitArticlesToBudget(platformModel, numberedArticles, {
+    query: question,
+    budget: getSourceBudget(platformModel, promptTemplate),
+  })
+
+  yield* generateStream(platformModel, {
+    prompt: chatPrompt(report, promptArticles, messages),
+    maxTokens: 4096,
+  })
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import {
+  citationsToText,
+  getCitedSources,
+  remapCitations,
+  resolveCitations,
+  splitCitations,
+} from './citations'
+import { type Article, type Source } from '@/types'
+
+const sources: Source[] = [
+  { id: 's1', url: 'https://a.example', name: 'A' },
+  { id: 's2', url: 'https://b.example', name: 'B' },
+  { id: 's3', url: 'https://c.example', name: 'C' },
+]
+
+// The model saw these in a different order, and one of them isn't a source
+const articles: Article[] = [
+  { url: 'https://c.example', title: 'C', content: '' },
+  { url: 'https://a.example', title: 'A', content: '' },
+  { url: 'https://unlisted.example', title: 'Unlisted', content: '' },
+]
+
+describe('remapCitations', () => {
+  it('rewrites article numbers to source numbers', () => {
+    expect(remapCitations('First[^1] and second[^2][^1].', articles, sources)).toBe(
+      'First[^3] and second[^1][^3].'
+    )
+  })
+
+  it('drops markers for articles that are not sources', () => {
+    expect(remapCitations('Unlisted[^3].', articles, sources)).toBe('Unlisted.')
+  })
+
+  it('drops out-of-range markers', () => {
+    expect(remapCitations('None[^0], too high[^4], way off[^99].', articles, sources)).toBe(
+      'None, too high, way off.'
+    )
+  })
+
+  it('leaves other bracketed text alone', () => {
+    expect(remapCitations('See [1] and [^a].', articles, sources)).toBe('See [1] and [^a].')
+  })
+})
+
+describe('resolveCitations', () => {
+  it('remaps the summary and every section', () => {
+    const report = {
+      title: 'Report',
+      summary: 'Summary[^2].',
+      sections: [
+        { title: 'One', content: 'One[^1].' },
+        { title: 'Two', content: 'Two[^3][^2].' },
+      ],
+    }
+    expect(resolveCitations(report, articles, sources)).toEqual({
+      title: 'Report',
+      summary: 'Summary[^1].',
+      sections: [
+        { title: 'One', content: 'One[^3].' },
+        { title: 'Two', content: 'Two[^1].' },
+      ],
+    })
+  })
+})
+
+describe('splitCitations', () => {
+  it('splits text into runs and resolved citations', () => {
+    expect(splitCitations('Claim[^2] and more[^1][^3].', sources)).toEqual([
+      { type: 'text', text: 'Claim' },
+      { type: 'citation', number: 2, source: sources[1] },
+      { type: 'text', text: ' and more' },
+      { type: 'citation', number: 1, source: sources[0] },
+      { type: 'citation', number: 3, source: sources[2] },
+      { type: 'text', text: '.' },
+    ])
+  })
+
+  it('drops out-of-range markers', () => {
+    expect(splitCitations('[^0]Start, end[^4]', sources)).toEqual([
+      { type: 'text', text: 'Start, end' },
+    ])
+  })
+
+  it('returns text without markers as a single run', () => {
+    expect(splitCitations('No citations', sources)).toEqual([{ type: 'text', text: 'No citations' }])
+    expect(splitCitations('', sources)).toEqual([])
+  })
+})
+
+describe('getCitedSources', () => {
+  it('lists cited sources once, in source order, skipping out-of-range markers', () => {
+    const report = {
+      title: 'Report',
+      summary: 'Summary[^3][^7].',
+      sections: [{ title: 'One', content: 'One[^1][^3].' }],
+      sources,
+    }
+    expect(getCitedSources(report)).toEqual([
+      { number: 1, source: sources[0] },
+      { number: 3, source: sources[2] },
+    ])
+  })
+})
+
+describe('citationsToText', () => {
+  it('turns footnote markers into bracketed numbers', () => {
+    expect(citationsToText('Claim[^1][^12].')).toBe('Claim[1][12].')
+  })
+})
@@ -0,0 +1,100 @@
+import { type Article, type Report, type Source } from '@/types'
+
+// Report text cites with footnote markers: [^n] refers to report.sources[n - 1]
+const CITATION_PATTERN = /\[\^(\d+)\]/g
+
+export type CitationSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; number: number; source: Source }
+
+// Shared by the report prompts; sources are numbered from 1 in the order they're listed
+export const citationMarkerInstructions = `Cite sources inline with footnote markers such as [^1] or [^2][^3], placed directly after the sentence or clause they support, where the number is the source's number in the list below. Do not write (Author, Year) or [1] style in-text citations; the markers are turned into footnotes`
+
+export function getCitedSource(sources: Source[], number: number): Source | undefined {
+  return sources[number - 1]
+}
+
+// Split text into plain runs and resolved citations, dropping markers that point nowhere
+export function splitCitations(text: string, sources: Source[]): CitationSegment[] {
+  const segments: CitationSegment[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, index) })
+    }
+    const number = Number(match[1])
+    const source = getCitedSource(sources, number)
+    if (source) {
+      segments.push({ type: 'citation', number, source })
+    }
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) })
+  }
+  return segments
+}
+
+// The model numbers the articles it was given; rewrite its markers in one piece of
+// text to point into sources
+export function remapCitations(text: string, articles: Article[], sources: Source[]): string {
+  return text.replace(CITATION_PATTERN, (_, articleNumber: string) => {
+    const article = articles[Number(articleNumber) - 1]
+    const index = article ? sources.findIndex(source => source.url === article.url) : -1
+    return index === -1 ? '' : `[^${index + 1}]`
+  })
+}
+
+export function resolveCitations<T extends Pick<Report, 'summary' | 'sections'>>(
+  report: T,
+  articles: Article[],
+  sources: Source[]
+): T {
+  return {
+    ...report,
+    summary: remapCitations(report.summary, articles, sources),
+    sections: report.sections.map(section => ({
+      ...section,
+      content: remapCitations(section.content, articles, sources),
+    })),
+  }
+}
+
+// The source texts numbered the same way as the [^n] markers, so a prompt can list
+// them in order. Sources without fetched content get an empty article
+export function articlesForSources(sources: Source[], articles: Article[]): Article[] {
+  return sources.map(
+    source =>
+      articles.find(article => article.url === source.url) ?? {
+        url: source.url,
+        title: source.name,
+        content: '',
+      }
+  )
+}
+
+// Plain bracketed numbers for formats without footnote support
+export function citationsToText(text: string): string {
+  return text.replace(CITATION_PATTERN, '[$1]')
+}
+
+// Sources actually cited in the report, in source order
+export function getCitedSources(report: Report): Array<{ number: number; source: Source }> {
+  const numbers = new Set<number>()
+  const texts = [report.summary, ...report.sections.map(section => section.content)]
+  for (const text of texts) {
+    for (const match of text.matchAll(CITATION_PATTERN)) {
+      numbers.add(Number(match[1]))
+    }
+  }
+
+  return Array.from(numbers)
+    .sort((a, b) => a - b)
+    .flatMap(number => {
+      const source = getCitedSource(report.sources, number)
+      return source ? [{ number, source }] : []
+    })
+}
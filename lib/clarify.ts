@@ -0,0 +1,45 @@
+import { generateStructured } from '@/lib/llm/structured'
+import { clarifyingQuestionsSchema } from '@/lib/schemas'
+import { type Clarification } from '@/types'
+
+const MAX_QUESTIONS = 5
+
+// Ask the model what it would need to know to research the query well
+export async function generateClarifyingQuestions(
+  query: string,
+  platformModel: string
+): Promise<string[]> {
+  const prompt = `A user wants to research the following topic. Before any research starts, ask between 1 and ${MAX_QUESTIONS} short clarifying questions whose answers would most change what should be researched: scope, time period, region, audience, depth, or which aspects matter most. Don't ask about things the request already makes clear, and ask fewer questions when the request is specific.
+
+<prompt>${query}</prompt>
+
+Respond with a JSON object of the form:
+{
+  "questions": ["..."]
+}`
+
+  const { questions } = await generateStructured(platformModel, {
+    prompt,
+    schema: clarifyingQuestionsSchema,
+    maxTokens: 1024,
+  })
+  return questions.slice(0, MAX_QUESTIONS)
+}
+
+// Keep only well-formed clarifications from a request body
+export function parseClarifications(value: unknown): Clarification[] {
+  if (!Array.isArray(value)) return []
+  return value.filter(
+    (item): item is Clarification =>
+      typeof item?.question === 'string' && typeof item?.answer === 'string'
+  )
+}
+
+// The answered clarifications as prompt text, or an empty string when there are none
+export function formatResearchBrief(clarifications: Clarification[] = []): string {
+  const answered = clarifications.filter(({ answer }) => answer.trim())
+  if (answered.length === 0) return ''
+
+  return `The user clarified their request as follows; take these answers into account:
+${answered.map(({ question, answer }) => `- ${question.trim()} ${answer.trim()}`).join('\n')}`
+}
@@ -5,6 +5,8 @@ export const CONFIG = {
     search: 2,
     contentFetch: 20,
     reportGeneration: 2,
+    // Sign-in and registration attempts per username for the server knowledge base
+    signIn: 5,
   },
 
   // Search settings
@@ -19,10 +21,130 @@ export const CONFIG = {
     },
     maxSelectableResults: 60,
     safeSearch: 'Moderate' as const,
+    // Default region for searches, as a language-country code; the UI can override it per search
     market: 'en-US',
+    // Search types offered in the UI, each backed by a provider in lib/search.
+    // emptyOnError answers provider failures with empty results and an error
+    // message instead of a failed request
+    searchTypes: {
+      general: {
+        enabled: true,
+        provider: 'duckduckgo',
+        label: 'General',
+        description: 'Standard search (fast)',
+        emptyOnError: false,
+      },
+      academic: {
+        enabled: true,
+        provider: 'semantic-scholar',
+        label: 'Academic',
+        description: 'Peer-reviewed journals via Semantic-Scholar (Servers might be busy, search may require multiple attempts)',
+        emptyOnError: true,
+      },
+      searxng: {
+        enabled: false,
+        provider: 'searxng',
+        label: 'SearxNG',
+        description: 'Self-hosted metasearch via SearxNG (set SEARXNG_URL)',
+        emptyOnError: false,
+      },
+      brave: {
+        enabled: false,
+        provider: 'brave',
+        label: 'Brave',
+        description: 'Brave Search API (set BRAVE_API_KEY)',
+        emptyOnError: false,
+      },
+    },
+  },
+
+  // Content extraction settings
+  contentExtraction: {
+    // 'jina' (public r.jina.ai proxy), 'builtin' (direct fetch + readability, works for
+    // internal URLs) or 'firecrawl' (set FIRECRAWL_API_KEY and/or FIRECRAWL_API_URL)
+    extractor: 'jina' as 'jina' | 'builtin' | 'firecrawl',
+    timeoutMs: 15000,
+    // Largest HTML or text page the builtin extractor will read
+    maxPageBytes: 5 * 1024 * 1024,
+    // PDF links (e.g. open access papers) are always parsed locally
+    maxPdfBytes: 20 * 1024 * 1024,
+    // Local documents uploaded as report sources
+    maxUploadBytes: 10 * 1024 * 1024,
+    // Pages are fetched from URLs sent by the client; keep private and loopback
+    // hosts off limits unless the builtin extractor is meant for an intranet
+    allowPrivateHosts: false,
+  },
+
+  // Duplicate detection for search results and fetched pages
+  dedupe: {
+    // Word n-gram size used to fingerprint fetched page content
+    shingleSize: 5,
+    // Jaccard similarity of fingerprints at which two pages count as the same article
+    nearDuplicateThreshold: 0.8,
+  },
+
+  // Claim verification run on manual reports after generation
+  verification: {
+    enabled: true,
+    // Source text beyond this many characters is left out of the verification prompt
+    maxSourceChars: 8000,
+    // Sections are verified in parallel, this many at a time
+    concurrency: 2,
+  },
+
+  // Saved reports live in the browser (IndexedDB) unless the server knowledge base is enabled
+  knowledgeBase: {
+    // Keep saved reports on the server too, so they follow a signed-in user
+    // across browsers and devices. The browser copy syncs with it, last write wins
+    server: {
+      enabled: false,
+      // 'redis' uses Upstash through lib/redis.ts, 'sqlite' a local database file
+      store: 'redis' as 'redis' | 'sqlite',
+      sqlitePath: 'data/knowledge-base.db',
+      // Let anyone create an account; turn off once your team has signed up
+      allowRegistration: true,
+      sessionTtlSeconds: 60 * 60 * 24 * 30,
+    },
   },
 
-  // AI Platform settings
+  // How sources are packed into report prompts that would overflow the model's context window
+  contextBudget: {
+    // Size of the pieces long sources are split into before ranking
+    chunkTokens: 1500,
+    // Sources summarized in parallel during the map step
+    mapConcurrency: 3,
+    // Share of the context window kept free for the prompt template and the response
+    reservedRatio: 0.25,
+  },
+
+  // Deep research settings
+  deepResearch: {
+    // Which entry in search.searchTypes deep research queries go through
+    searchType: 'general',
+    // Persist runs in Redis so they can be polled, resumed or cancelled by job ID
+    persistJobs: false,
+    jobTtlSeconds: 60 * 60 * 24,
+    // A running job whose worker hasn't sent a heartbeat for this long is treated as
+    // abandoned and can be resumed. Workers renew their lease every quarter of this
+    staleJobMs: 2 * 60 * 1000,
+    // Most first-level queries a reviewed research plan may contain
+    maxPlanQueries: 10,
+    // Adaptive runs stop branches that stop turning up new information, and stop
+    // the whole run once any of the budgets below is used up
+    adaptive: {
+      enabled: false,
+      // A branch whose learnings are less novel than this (0-1) goes no deeper
+      minNovelty: 0.35,
+      maxQueries: 30,
+      maxFetches: 120,
+      // Estimated prompt and response tokens across all model calls
+      maxTokens: 400_000,
+      maxDurationMs: 10 * 60 * 1000,
+    },
+  },
+
+  // AI Platform settings; contextWindow is each model's input limit in tokens. A model
+  // can also set maxOutputTokens when its response limit isn't the default 8192
   platforms: {
     google: {
       enabled: true,
@@ -30,14 +152,17 @@ export const CONFIG = {
         'gemini-flash': {
           enabled: true,
           label: 'Gemini Flash',
+          contextWindow: 1_000_000,
         },
         'gemini-flash-thinking': {
           enabled: true,
           label: 'Gemini Flash Thinking',
+          contextWindow: 32_000,
         },
         'gemini-exp': {
           enabled: false,
           label: 'Gemini Exp',
+          contextWindow: 2_000_000,
         },
       },
     },
@@ -47,14 +172,17 @@ export const CONFIG = {
         'gpt-4o': {
           enabled: false,
           label: 'GPT-4o',
+          contextWindow: 128_000,
         },
         'o1-mini': {
           enabled: false,
           label: 'o1-mini',
+          contextWindow: 128_000,
         },
         o1: {
           enabled: false,
           label: 'o1',
+          contextWindow: 200_000,
         },
       },
     },
@@ -64,10 +192,12 @@ export const CONFIG = {
         'sonnet-3.5': {
           enabled: false,
           label: 'Claude 3 Sonnet',
+          contextWindow: 200_000,
         },
         'haiku-3.5': {
           enabled: false,
           label: 'Claude 3 Haiku',
+          contextWindow: 200_000,
         },
       },
     },
@@ -77,10 +207,33 @@ export const CONFIG = {
         chat: {
           enabled: true,
           label: 'Chat',
+          contextWindow: 64_000,
         },
         reasoner: {
           enabled: true,
           label: 'Reasoner',
+          contextWindow: 64_000,
+        },
+      },
+    },
+    // Any OpenAI-compatible server running on-prem (Ollama, vLLM, LM Studio, llama.cpp)
+    local: {
+      enabled: false,
+      baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      // Context windows here should match the server's configured context length (e.g. Ollama's
+      // num_ctx). The response shares that window with the prompt, so output is kept to a quarter
+      models: {
+        'llama3.1': {
+          enabled: true,
+          label: 'Llama 3.1',
+          contextWindow: 8_192,
+          maxOutputTokens: 2_048,
+        },
+        'qwen2.5': {
+          enabled: true,
+          label: 'Qwen 2.5',
+          contextWindow: 8_192,
+          maxOutputTokens: 2_048,
         },
       },
     },
@@ -0,0 +1,62 @@
+import { Readability } from '@mozilla/readability'
+import { parseHTML } from 'linkedom'
+import TurndownService from 'turndown'
+import { CONFIG } from '@/lib/config'
+import { type ContentExtractor } from './types'
+import { fetchPage, readBody } from './fetch'
+import { isPdfResponse, pdfToMarkdown } from './pdf'
+
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  codeBlockStyle: 'fenced',
+  bulletListMarker: '-',
+})
+
+// Images and embedded media only add noise for the model
+turndown.remove(['script', 'style', 'noscript', 'iframe', 'img'])
+
+const TEXT_CONTENT_TYPES = ['text/html', 'application/xhtml+xml', 'text/plain', 'text/markdown']
+
+export function toMarkdown(html: string): string {
+  return turndown.turndown(html).trim()
+}
+
+// Run readability-style main content extraction and convert the result to markdown
+export function htmlToMarkdown(html: string, url: string): string {
+  const { document } = parseHTML(html)
+  const article = new Readability(document as unknown as Document).parse()
+
+  // Fall back to the whole body when readability can't find an article
+  const title = article?.title || document.title || url
+  const contentHtml = article?.content || document.body?.innerHTML || ''
+  const markdown = toMarkdown(contentHtml)
+
+  return `Title: ${title}\n\nURL Source: ${url}\n\nMarkdown Content:\n${markdown}`
+}
+
+// Fetches pages directly, so it also works for intranet URLs when
+// CONFIG.contentExtraction.allowPrivateHosts is set
+export const builtinExtractor: ContentExtractor = {
+  async extract(url) {
+    const response = await fetchPage(url)
+    if (isPdfResponse(response)) {
+      const data = await readBody(response, CONFIG.contentExtraction.maxPdfBytes)
+      return pdfToMarkdown(data, response.url || url)
+    }
+
+    // Servers that send no content type are assumed to be serving HTML
+    const contentType = response.headers.get('content-type') || 'text/html'
+    if (!TEXT_CONTENT_TYPES.some(type => contentType.includes(type))) {
+      await response.body?.cancel()
+      throw new Error(`Unsupported content type from ${url}: ${contentType}`)
+    }
+    const body = new TextDecoder().decode(
+      await readBody(response, CONFIG.contentExtraction.maxPageBytes)
+    )
+
+    if (contentType.includes('text/plain') || contentType.includes('text/markdown')) {
+      return body
+    }
+    return htmlToMarkdown(body, response.url || url)
+  },
+}
@@ -0,0 +1,239 @@
+import { lookup } from 'dns/promises'
+import { type LookupAddress } from 'dns'
+import http from 'http'
+import https from 'https'
+import { isIP, type LookupFunction } from 'net'
+import { pipeline, Readable, type Transform } from 'stream'
+import zlib from 'zlib'
+import { CONFIG } from '@/lib/config'
+
+const MAX_REDIRECTS = 5
+
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; intelexia.ai content extractor)',
+  'Accept': 'text/html,application/xhtml+xml,application/pdf,text/plain;q=0.9,*/*;q=0.8',
+  'Accept-Encoding': 'gzip, deflate, br',
+}
+
+// Statuses a Response can't be constructed with a body for
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304])
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved IPv4 ranges
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number)
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  )
+}
+
+// The eight 16-bit groups of an IPv6 address, with a trailing dotted IPv4 part
+// (::ffff:127.0.0.1) converted to two groups
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, '')
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) {
+    const [a, b, c, d] = dotted[2].split('.').map(Number)
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+  }
+
+  const [head, tail] = text.split('::')
+  const parse = (part: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : [])
+  if (tail === undefined) return parse(head)
+  const [start, end] = [parse(head), parse(tail)]
+  return [...start, ...Array<number>(8 - start.length - end.length).fill(0), ...end]
+}
+
+function embeddedIPv4(high: number, low: number): string {
+  return `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`
+}
+
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIPv4(address)
+
+  const groups = ipv6Groups(address)
+  const allZero = (start: number, end: number) => groups.slice(start, end).every(group => group === 0)
+  // IPv4-mapped ::ffff:0:0/96 and IPv4-compatible ::/96, which also covers :: and ::1
+  if (allZero(0, 5) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return isPrivateIPv4(embeddedIPv4(groups[6], groups[7]))
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) {
+    // NAT64 64:ff9b::/96 reaches the embedded IPv4 address; 64:ff9b:1::/48 is local use
+    if (groups[2] === 1) return true
+    if (allZero(2, 6)) return isPrivateIPv4(embeddedIPv4(groups[6], groups[7]))
+  }
+  // 6to4 2002::/16 tunnels to the IPv4 address in the next 32 bits
+  if (groups[0] === 0x2002) {
+    return isPrivateIPv4(embeddedIPv4(groups[1], groups[2]))
+  }
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (groups[0] & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (groups[0] & 0xffc0) === 0xfec0 || // deprecated site-local fec0::/10
+    (groups[0] & 0xff00) === 0xff00 // multicast ff00::/8
+  )
+}
+
+// Pages are fetched from client-supplied URLs, so only public http(s) hosts are
+// allowed unless CONFIG.contentExtraction.allowPrivateHosts is set. Resolves to the
+// checked address the request has to connect to, or null when any address will do
+async function resolveFetchableHost(url: URL): Promise<LookupAddress | null> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Refusing to fetch ${url}: only http and https URLs are supported`)
+  }
+  if (CONFIG.contentExtraction.allowPrivateHosts) return null
+
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  const family = isIP(host)
+  const addresses = family ? [{ address: host, family }] : await lookup(host, { all: true })
+  const isPrivate = addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))
+  if (host === 'localhost' || isPrivate) {
+    throw new Error(`Refusing to fetch ${url}: private and loopback hosts are not allowed`)
+  }
+  return addresses[0]
+}
+
+function createDecoder(contentEncoding: string | undefined): Transform | null {
+  switch (contentEncoding?.trim().toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.createGunzip()
+    case 'deflate':
+      return zlib.createInflate()
+    case 'br':
+      return zlib.createBrotliDecompress()
+    default:
+      return null
+  }
+}
+
+// One request without following redirects. With an address given, the connection
+// goes to it rather than to whatever the hostname resolves to by then, so a DNS
+// answer that changes after the check can't point the request at a private host
+function request(url: URL, address: LookupAddress | null, signal: AbortSignal): Promise<Response> {
+  const client = url.protocol === 'https:' ? https : http
+  const pinnedLookup: LookupFunction | undefined = address
+    ? (_hostname, options, callback) => {
+        if (options.all) {
+          callback(null, [address])
+        } else {
+          callback(null, address.address, address.family)
+        }
+      }
+    : undefined
+
+  return new Promise((resolve, reject) => {
+    const outgoing = client.request(
+      url,
+      { headers: REQUEST_HEADERS, lookup: pinnedLookup, signal },
+      message => {
+        try {
+          const headers = new Headers()
+          for (const [name, value] of Object.entries(message.headers)) {
+            for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+              headers.append(name, item)
+            }
+          }
+
+          // Undo the Content-Encoding like fetch does. pipeline passes an aborted
+          // request on to the decoder, so reading the body fails instead of hanging
+          let body: Readable = message
+          const decoder = createDecoder(message.headers['content-encoding'])
+          if (decoder) {
+            body = pipeline(message, decoder, () => {})
+            headers.delete('content-encoding')
+            headers.delete('content-length')
+          }
+
+          const status = message.statusCode ?? 502
+          const hasBody = !NULL_BODY_STATUSES.has(status)
+          if (!hasBody) message.resume()
+          const stream = hasBody ? (Readable.toWeb(body) as ReadableStream<Uint8Array>) : null
+          const response = new Response(stream, { status, statusText: message.statusMessage, headers })
+          // Constructed responses have no URL; callers resolve relative links against it
+          Object.defineProperty(response, 'url', { value: url.toString() })
+          resolve(response)
+        } catch (error) {
+          // e.g. a status outside what Response accepts
+          message.destroy()
+          reject(error)
+        }
+      }
+    )
+    outgoing.on('error', reject)
+    outgoing.end()
+  })
+}
+
+// Fetch a page directly from our server, failing on rate limits and error statuses.
+// Redirects are followed by hand so every hop goes through the same host checks
+export async function fetchPage(url: string): Promise<Response> {
+  const signal = AbortSignal.timeout(CONFIG.contentExtraction.timeoutMs)
+  let currentUrl = new URL(url)
+
+  for (let redirects = 0; ; redirects++) {
+    const address = await resolveFetchableHost(currentUrl)
+    const response = await request(currentUrl, address, signal)
+
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel()
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects fetching ${url}`)
+      }
+      currentUrl = new URL(location, currentUrl)
+      continue
+    }
+
+    if (response.status === 429) {
+      await response.body?.cancel()
+      throw new Error('Content fetch rate limit exceeded')
+    }
+    if (!response.ok) {
+      await response.body?.cancel()
+      throw new Error(`Failed to fetch ${url}: ${response.status}`)
+    }
+    return response
+  }
+}
+
+// Read a response body, giving up as soon as it's larger than maxBytes instead of
+// buffering all of it first
+export async function readBody(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const tooLarge = () => new Error(`Response from ${response.url} exceeds the ${maxBytes} byte limit`)
+
+  const contentLength = Number(response.headers.get('content-length'))
+  if (contentLength > maxBytes) {
+    await response.body?.cancel()
+    throw tooLarge()
+  }
+  if (!response.body) return new Uint8Array()
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    received += value.byteLength
+    if (received > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(received)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body
+}
@@ -0,0 +1,31 @@
+import FirecrawlApp from '@mendable/firecrawl-js'
+import { type ContentExtractor } from './types'
+
+let firecrawl: FirecrawlApp | null = null
+
+// Created lazily because the client throws without an API key for the cloud service
+function getFirecrawl(): FirecrawlApp {
+  if (!firecrawl) {
+    firecrawl = new FirecrawlApp({
+      apiKey: process.env.FIRECRAWL_API_KEY || null,
+      apiUrl: process.env.FIRECRAWL_API_URL || null,
+    })
+  }
+  return firecrawl
+}
+
+export const firecrawlExtractor: ContentExtractor = {
+  async extract(url) {
+    const result = await getFirecrawl().scrapeUrl(url, { formats: ['markdown'] })
+    if (!result.success) {
+      if (result.error?.toLowerCase().includes('rate limit')) {
+        throw new Error('Firecrawl content fetch rate limit exceeded')
+      }
+      throw new Error(`Firecrawl failed to scrape ${url}: ${result.error}`)
+    }
+    if (!result.markdown) {
+      throw new Error(`Firecrawl returned no content for ${url}`)
+    }
+    return result.markdown
+  },
+}
@@ -0,0 +1,33 @@
+import { CONFIG } from '@/lib/config'
+import { type ContentExtractor } from './types'
+import { jinaExtractor } from './jina'
+import { builtinExtractor } from './builtin'
+import { firecrawlExtractor } from './firecrawl'
+import { isPdfUrl, pdfExtractor } from './pdf'
+
+export type { ContentExtractor } from './types'
+
+export type ContentExtractorName = typeof CONFIG.contentExtraction.extractor
+
+const extractors: Record<ContentExtractorName, ContentExtractor> = {
+  jina: jinaExtractor,
+  builtin: builtinExtractor,
+  firecrawl: firecrawlExtractor,
+}
+
+// Fetch a page as markdown with the extractor chosen in CONFIG.contentExtraction
+export async function extractContent(url: string): Promise<string> {
+  const extractor = extractors[CONFIG.contentExtraction.extractor]
+
+  if (isPdfUrl(url)) {
+    try {
+      return await pdfExtractor.extract(url)
+    } catch (error) {
+      // Some ".pdf" links lead to a landing page or a paywall; let the configured extractor try
+      if (error instanceof Error && error.message.includes('rate limit')) throw error
+      console.warn(`PDF extraction failed for ${url}, falling back:`, error)
+    }
+  }
+
+  return extractor.extract(url)
+}
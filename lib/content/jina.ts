@@ -0,0 +1,22 @@
+import axios from 'axios'
+import { CONFIG } from '@/lib/config'
+import { type ContentExtractor } from './types'
+
+// Public r.jina.ai reader proxy; can't reach internal URLs
+export const jinaExtractor: ContentExtractor = {
+  async extract(url) {
+    try {
+      const response = await axios.get(`https://r.jina.ai/${encodeURIComponent(url)}`, {
+        timeout: CONFIG.contentExtraction.timeoutMs,
+        responseType: 'text'
+      })
+      return response.data
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 429) {
+        console.warn(`Jina AI rate limit hit for ${url}`)
+        throw new Error('Jina AI content fetch rate limit exceeded')
+      }
+      throw error
+    }
+  },
+}
@@ -0,0 +1,242 @@
+import {
+  extractTextItems,
+  getDocumentProxy,
+  getMeta,
+  type StructuredTextItem,
+} from 'unpdf'
+import { CONFIG } from '@/lib/config'
+import { type ContentExtractor } from './types'
+import { fetchPage, readBody } from './fetch'
+
+export interface PdfSection {
+  heading: string
+  text: string
+}
+
+export interface PdfDocument {
+  title: string
+  sections: PdfSection[]
+  references: string[]
+}
+
+type PdfLine = {
+  text: string
+  fontSize: number
+}
+
+// "1 Introduction", "2.3. Results", "IV. DISCUSSION"
+const SECTION_NUMBER = /^((\d+(\.\d+)*\.?)|([IVXL]+\.))\s+/
+const KNOWN_HEADINGS = /^(abstract|introduction|background|related work|preliminaries|methods?|methodology|materials and methods|experiments?|evaluation|results|discussion|limitations|conclusions?|future work|acknowledge?ments|appendix( [A-Z])?|references|bibliography|works cited|literature cited)$/i
+const REFERENCES_HEADING = /^(references|bibliography|works cited|literature cited)$/i
+// Numbered reference entries: "[12] ..." or "12. ..."
+const REFERENCE_START = /^(\[\d+\]|\d+\.)\s/
+
+export function isPdfUrl(url: string): boolean {
+  try {
+    const { hostname, pathname } = new URL(url)
+    return (
+      pathname.toLowerCase().endsWith('.pdf') ||
+      (hostname.endsWith('arxiv.org') && pathname.startsWith('/pdf/'))
+    )
+  } catch {
+    return false
+  }
+}
+
+export function isPdfResponse(response: Response): boolean {
+  return (response.headers.get('content-type') || '').includes('application/pdf')
+}
+
+// Rebuild text lines from positioned text items, keeping the largest font on each line
+function toLines(items: StructuredTextItem[]): PdfLine[] {
+  const lines: PdfLine[] = []
+  let text = ''
+  let fontSize = 0
+  let lastY: number | null = null
+
+  const flush = () => {
+    const line = text.replace(/\s+/g, ' ').trim()
+    // Bare page numbers are running footers, not content
+    if (line && !/^\d+$/.test(line)) {
+      lines.push({ text: line, fontSize })
+    }
+    text = ''
+    fontSize = 0
+  }
+
+  for (const item of items) {
+    // Not every producer marks line ends, so also break when the baseline moves
+    if (lastY !== null && text && Math.abs(item.y - lastY) > item.fontSize / 2) {
+      flush()
+    }
+    text += item.str
+    if (item.str.trim()) {
+      fontSize = Math.max(fontSize, item.fontSize)
+    }
+    lastY = item.y
+    if (item.hasEOL) flush()
+  }
+  flush()
+
+  return lines
+}
+
+// The most common font size by character count is the body text size
+function bodyFontSize(lines: PdfLine[]): number {
+  const counts = new Map<number, number>()
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2
+    counts.set(size, (counts.get(size) || 0) + line.text.length)
+  }
+  let bodySize = 0
+  let bodyCount = 0
+  for (const [size, count] of counts) {
+    if (count > bodyCount) {
+      bodySize = size
+      bodyCount = count
+    }
+  }
+  return bodySize
+}
+
+function headingText(line: PdfLine, bodySize: number): string | null {
+  const { text, fontSize } = line
+  if (text.length > 80 || /[.,;:]$/.test(text) || !/[a-z]/i.test(text)) {
+    return null
+  }
+
+  const stripped = text.replace(SECTION_NUMBER, '').trim()
+  if (KNOWN_HEADINGS.test(stripped)) {
+    return stripped
+  }
+
+  const larger = fontSize >= bodySize * 1.15
+  if (larger && SECTION_NUMBER.test(text) && /^[A-Z]/.test(stripped)) {
+    return text
+  }
+  if (fontSize >= bodySize * 1.3 && text.split(' ').length <= 12) {
+    return text
+  }
+  return null
+}
+
+// Join wrapped lines into running text, undoing end-of-line hyphenation
+function joinLines(lines: string[]): string {
+  return lines.reduce((joined, line) => {
+    if (!joined) return line
+    if (/[a-z]-$/.test(joined) && /^[a-z]/.test(line)) {
+      return joined.slice(0, -1) + line
+    }
+    return `${joined} ${line}`
+  }, '')
+}
+
+// Split a references section into entries, numbered or author-year
+function splitReferences(lines: string[]): string[] {
+  const numbered = lines.filter(line => REFERENCE_START.test(line)).length >= 2
+  const entries: string[][] = []
+
+  for (const line of lines) {
+    const previous = entries[entries.length - 1]
+    const startsEntry = numbered
+      ? REFERENCE_START.test(line)
+      : !previous || (/\.$/.test(previous[previous.length - 1]) && /^[A-Z]/.test(line))
+
+    if (startsEntry || !previous) {
+      entries.push([line])
+    } else {
+      previous.push(line)
+    }
+  }
+
+  return entries.map(joinLines)
+}
+
+// Extract the text of a PDF split into headed sections, with the reference list pulled out
+export async function parsePdf(data: ArrayBuffer | Uint8Array): Promise<PdfDocument> {
+  const pdf = await getDocumentProxy(new Uint8Array(data))
+
+  try {
+    const [{ info }, { items }] = await Promise.all([
+      getMeta(pdf),
+      extractTextItems(pdf),
+    ])
+    const pages = items.map(toLines)
+    const lines = pages.flat()
+    const bodySize = bodyFontSize(lines)
+
+    // Fall back to the largest line on the first page when the metadata has no title
+    const firstPage = pages[0] || []
+    const titleLine = firstPage.reduce<PdfLine | null>(
+      (largest, line) => (!largest || line.fontSize > largest.fontSize ? line : largest),
+      null
+    )
+    const title = (typeof info?.Title === 'string' && info.Title.trim()) || titleLine?.text || ''
+
+    const sections: Array<{ heading: string; lines: string[] }> = []
+    const referenceLines: string[] = []
+    let current = { heading: '', lines: [] as string[] }
+    let inReferences = false
+
+    for (const line of lines) {
+      if (line === titleLine) continue
+
+      const heading = headingText(line, bodySize)
+      if (heading) {
+        if (current.lines.length > 0) sections.push(current)
+        current = { heading, lines: [] }
+        inReferences = REFERENCES_HEADING.test(heading)
+        continue
+      }
+
+      if (inReferences) {
+        referenceLines.push(line.text)
+      } else {
+        current.lines.push(line.text)
+      }
+    }
+    if (current.lines.length > 0) sections.push(current)
+
+    return {
+      title,
+      sections: sections.map(section => ({
+        heading: section.heading,
+        text: joinLines(section.lines),
+      })),
+      references: splitReferences(referenceLines),
+    }
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+export function formatPdfMarkdown(document: PdfDocument): string {
+  const parts = document.sections.map(section =>
+    section.heading ? `## ${section.heading}\n\n${section.text}` : section.text
+  )
+  if (document.references.length > 0) {
+    parts.push(`## References\n\n${document.references.map(ref => `- ${ref}`).join('\n')}`)
+  }
+  return parts.join('\n\n')
+}
+
+export async function pdfToMarkdown(data: ArrayBuffer | Uint8Array, url: string): Promise<string> {
+  if (data.byteLength > CONFIG.contentExtraction.maxPdfBytes) {
+    throw new Error(`PDF at ${url} exceeds the ${CONFIG.contentExtraction.maxPdfBytes} byte limit`)
+  }
+
+  const document = await parsePdf(data)
+  return `Title: ${document.title || url}\n\nURL Source: ${url}\n\nMarkdown Content:\n${formatPdfMarkdown(document)}`
+}
+
+// Downloads and parses PDFs on our server; hosted readers tend to mangle papers
+export const pdfExtractor: ContentExtractor = {
+  async extract(url) {
+    const response = await fetchPage(url)
+    if (!isPdfResponse(response)) {
+      throw new Error(`Expected a PDF from ${url}`)
+    }
+    const data = await readBody(response, CONFIG.contentExtraction.maxPdfBytes)
+    return pdfToMarkdown(data, response.url || url)
+  },
+}
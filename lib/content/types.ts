@@ -0,0 +1,4 @@
+// Turns a URL into markdown suitable for feeding to a model
+export interface ContentExtractor {
+  extract(url: string): Promise<string>
+}
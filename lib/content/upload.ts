@@ -0,0 +1,74 @@
+import { createHash } from 'crypto'
+import mammoth from 'mammoth'
+import { type Article } from '@/types'
+import { toMarkdown } from './builtin'
+import { formatPdfMarkdown, parsePdf } from './pdf'
+
+type UploadKind = 'pdf' | 'docx' | 'markdown' | 'text'
+
+export const SUPPORTED_UPLOAD_EXTENSIONS = ['.pdf', '.docx', '.md', '.markdown', '.txt']
+
+export function getUploadKind(fileName: string): UploadKind | null {
+  const extension = fileName.toLowerCase().slice(fileName.lastIndexOf('.'))
+  switch (extension) {
+    case '.pdf':
+      return 'pdf'
+    case '.docx':
+      return 'docx'
+    case '.md':
+    case '.markdown':
+      return 'markdown'
+    case '.txt':
+      return 'text'
+    default:
+      return null
+  }
+}
+
+// Uploads have no web address, so they get a stable pseudo-URL for citations. The
+// content hash keeps two different files with the same name apart
+export function uploadUrl(fileName: string, data: ArrayBuffer): string {
+  const hash = createHash('sha256').update(Buffer.from(data)).digest('hex').slice(0, 12)
+  return `upload://${hash}/${encodeURIComponent(fileName)}`
+}
+
+function stripExtension(fileName: string): string {
+  const index = fileName.lastIndexOf('.')
+  return index > 0 ? fileName.slice(0, index) : fileName
+}
+
+// Convert an uploaded file into the same Article shape as a fetched page
+export async function extractUploadedFile(file: File): Promise<Article> {
+  const kind = getUploadKind(file.name)
+  if (!kind) {
+    throw new Error(`Unsupported file type: ${file.name}`)
+  }
+
+  const data = await file.arrayBuffer()
+  let title = stripExtension(file.name)
+  let content: string
+
+  switch (kind) {
+    case 'pdf': {
+      const document = await parsePdf(data)
+      title = document.title || title
+      content = formatPdfMarkdown(document)
+      break
+    }
+    case 'docx': {
+      const { value } = await mammoth.convertToHtml({ buffer: Buffer.from(data) })
+      content = toMarkdown(value)
+      break
+    }
+    case 'markdown':
+    case 'text':
+      content = new TextDecoder().decode(data)
+      break
+  }
+
+  return {
+    url: uploadUrl(file.name, data),
+    title,
+    content: content.trim(),
+  }
+}
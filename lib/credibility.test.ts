@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { rankByCredibility, scoreSearchResult, withCredibility } from './credibility'
+import { type SearchResult } from '@/types'
+
+const result = (url: string, overrides: Partial<SearchResult> = {}): SearchResult => ({
+  id: url,
+  url,
+  name: 'A page',
+  snippet: 'Some text',
+  ...overrides,
+})
+
+describe('scoreSearchResult', () => {
+  it.each([
+    ['institutional suffix', 'https://www.nasa.gov/missions', 70, '+20 institutional domain'],
+    ['institutional second-level suffix', 'https://www.ox.ac.uk/news', 70, '+20 institutional domain'],
+    ['reputable publisher', 'https://www.nature.com/articles/x', 70, '+20 reputable publisher'],
+    ['reputable publisher subdomain', 'https://journals.plos.org/plosone/x', 70, '+20 reputable publisher'],
+    ['preprint server', 'https://arxiv.org/abs/1234', 55, '+5 preprint or reference site'],
+    ['open encyclopedia', 'https://en.wikipedia.org/wiki/X', 55, '+5 preprint or reference site'],
+    ['social media', 'https://www.reddit.com/r/x', 30, '-20 user-generated or social content'],
+    ['blog host subdomain', 'https://someone.blogspot.com/post', 30, '-20 user-generated or social content'],
+    ['unknown site', 'https://example.com/page', 50, undefined],
+  ])('scores a %s', (_, url, score, signal) => {
+    const credibility = scoreSearchResult(result(url))
+    expect(credibility.score).toBe(score)
+    if (signal) expect(credibility.signals).toContain(signal)
+    else expect(credibility.signals).toEqual([])
+  })
+
+  it('matches domains on label boundaries only', () => {
+    expect(scoreSearchResult(result('https://notnature.com/x')).score).toBe(50)
+    expect(scoreSearchResult(result('https://nature.com.evil.example/x')).score).toBe(50)
+  })
+
+  it('penalizes plain HTTP', () => {
+    expect(scoreSearchResult(result('http://example.com/page')).signals).toContain('-5 no HTTPS')
+  })
+
+  it('rewards recent publications and penalizes old ones', () => {
+    const year = new Date().getFullYear()
+    const score = (publishedYear: number) =>
+      scoreSearchResult(result('https://example.com', { publishedDate: `${publishedYear}-06-01` })).score
+    expect(score(year)).toBe(60)
+    expect(score(year - 4)).toBe(55)
+    expect(score(year - 8)).toBe(50)
+    expect(score(year - 20)).toBe(45)
+  })
+
+  it('counts citations on a capped log scale', () => {
+    const withCitations = (citationCount: number) =>
+      scoreSearchResult(
+        result('https://example.com', {
+          metadata: { venue: '', year: 0, authors: '', citationCount },
+        })
+      ).score
+    expect(withCitations(0)).toBe(50)
+    expect(withCitations(9)).toBe(57)
+    expect(withCitations(999)).toBe(70)
+    expect(withCitations(1_000_000)).toBe(70)
+  })
+
+  it('penalizes sensational and all-caps titles', () => {
+    const clickbait = scoreSearchResult(
+      result('https://example.com', { name: 'YOU WONT BELIEVE THIS', snippet: 'Shocking!!' })
+    )
+    expect(clickbait.signals).toEqual(['-15 sensational wording', '-5 all-caps title'])
+    expect(clickbait.score).toBe(30)
+  })
+
+  it('keeps scores within 0 to 100', () => {
+    const best = scoreSearchResult(
+      result('https://www.nature.com/articles/x', {
+        name: 'A peer-reviewed study',
+        publishedDate: new Date().toISOString(),
+        metadata: { venue: 'Nature', year: new Date().getFullYear(), authors: 'A. Author', citationCount: 10_000 },
+      })
+    )
+    const worst = scoreSearchResult(
+      result('http://www.reddit.com/r/x', {
+        name: 'DOCTORS HATE THIS MIRACLE CURE',
+        publishedDate: '1990-01-01',
+      })
+    )
+    expect(best.score).toBe(100)
+    expect(worst.score).toBe(0)
+  })
+
+  it('orders domain classes from institutional down to social', () => {
+    const scores = [
+      'https://www.cdc.gov/x',
+      'https://arxiv.org/abs/x',
+      'https://example.com/x',
+      'https://www.quora.com/x',
+    ].map(url => scoreSearchResult(result(url)).score)
+    expect(scores).toEqual([...scores].sort((a, b) => b - a))
+    expect(new Set(scores).size).toBe(scores.length)
+  })
+})
+
+describe('rankByCredibility', () => {
+  it('puts the most credible first and keeps relevance order on ties', () => {
+    const ranked = rankByCredibility(
+      withCredibility([
+        result('https://example.com/first'),
+        result('https://www.reddit.com/r/x'),
+        result('https://www.nature.com/articles/x'),
+        result('https://example.org/second'),
+      ])
+    )
+    expect(ranked.map(({ url }) => url)).toEqual([
+      'https://www.nature.com/articles/x',
+      'https://example.com/first',
+      'https://example.org/second',
+      'https://www.reddit.com/r/x',
+    ])
+  })
+})
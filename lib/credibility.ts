@@ -0,0 +1,139 @@
+import { type CredibilityScore, type SearchResult } from '@/types'
+
+const BASE_SCORE = 50
+
+// Institutional top-level domains, matched as a suffix of the hostname
+const INSTITUTIONAL_SUFFIXES = ['.gov', '.mil', '.edu', '.int', '.ac.uk', '.gov.uk', '.edu.au', '.gc.ca', '.europa.eu']
+
+// Journals, publishers, reference works and wire services with editorial review
+const REPUTABLE_DOMAINS = [
+  'nature.com', 'science.org', 'sciencedirect.com', 'springer.com', 'wiley.com',
+  'thelancet.com', 'nejm.org', 'bmj.com', 'jamanetwork.com', 'cell.com', 'pnas.org',
+  'ieee.org', 'acm.org', 'plos.org', 'ncbi.nlm.nih.gov', 'who.int', 'oecd.org',
+  'worldbank.org', 'imf.org', 'semanticscholar.org', 'britannica.com',
+  'reuters.com', 'apnews.com', 'bbc.co.uk', 'bbc.com', 'economist.com', 'ft.com',
+  'nytimes.com', 'washingtonpost.com', 'theguardian.com', 'wsj.com', 'npr.org',
+]
+
+// Useful, but preprints and open encyclopedias aren't peer reviewed
+const SECONDARY_DOMAINS = ['arxiv.org', 'biorxiv.org', 'medrxiv.org', 'ssrn.com', 'wikipedia.org', 'github.com']
+
+// User-generated content, content farms and social media
+const LOW_QUALITY_DOMAINS = [
+  'quora.com', 'reddit.com', 'pinterest.com', 'answers.com', 'ehow.com', 'wikihow.com',
+  'facebook.com', 'twitter.com', 'x.com', 'tiktok.com', 'instagram.com', 'medium.com',
+  'blogspot.com', 'wordpress.com', 'tumblr.com', 'substack.com',
+]
+
+const CLICKBAIT = /(you won't believe|shocking|this one trick|\bmiracle\b|doctors hate|!!+|\bsecret\b.*\brevealed\b)/i
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  return domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`))
+}
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+function getPublicationYear(result: SearchResult): number | null {
+  if (result.metadata?.year) return result.metadata.year
+  if (result.publishedDate) {
+    const year = new Date(result.publishedDate).getFullYear()
+    if (!Number.isNaN(year)) return year
+  }
+  return null
+}
+
+// Score how trustworthy a result looks from what we know before fetching it: who
+// publishes it, when, whether it has authors and citations, and how the text reads
+export function scoreSearchResult(result: SearchResult): CredibilityScore {
+  const signals: string[] = []
+  let score = BASE_SCORE
+
+  const adjust = (points: number, reason: string) => {
+    score += points
+    signals.push(`${points > 0 ? '+' : ''}${points} ${reason}`)
+  }
+
+  // Domain reputation
+  const hostname = getHostname(result.url)
+  if (hostname) {
+    if (INSTITUTIONAL_SUFFIXES.some(suffix => hostname.endsWith(suffix))) {
+      adjust(20, 'institutional domain')
+    } else if (matchesDomain(hostname, REPUTABLE_DOMAINS)) {
+      adjust(20, 'reputable publisher')
+    } else if (matchesDomain(hostname, SECONDARY_DOMAINS)) {
+      adjust(5, 'preprint or reference site')
+    } else if (matchesDomain(hostname, LOW_QUALITY_DOMAINS)) {
+      adjust(-20, 'user-generated or social content')
+    }
+    if (result.url.startsWith('http://')) {
+      adjust(-5, 'no HTTPS')
+    }
+  }
+
+  // Publication date
+  const year = getPublicationYear(result)
+  if (year) {
+    const age = new Date().getFullYear() - year
+    if (age <= 2) {
+      adjust(10, 'published in the last 2 years')
+    } else if (age <= 5) {
+      adjust(5, 'published in the last 5 years')
+    } else if (age > 10) {
+      adjust(-5, 'more than 10 years old')
+    }
+  }
+
+  // Authorship and venue
+  if (result.metadata?.authors) {
+    adjust(5, 'named authors')
+  }
+  if (result.metadata?.venue) {
+    adjust(5, 'published in a venue')
+  }
+
+  // Citations, on a log scale so a handful count and thousands don't dominate
+  const citations = result.metadata?.citationCount
+  if (citations !== undefined && citations > 0) {
+    adjust(Math.min(Math.round(Math.log10(citations + 1) * 7), 20), `${citations} citations`)
+  }
+
+  // Content signals from the title and snippet
+  const text = `${result.name} ${result.snippet}`
+  if (CLICKBAIT.test(text)) {
+    adjust(-15, 'sensational wording')
+  }
+  const letters = result.name.replace(/[^a-z]/gi, '')
+  if (letters.length > 10 && letters === letters.toUpperCase()) {
+    adjust(-5, 'all-caps title')
+  }
+  if (/\b(study|research|survey|analysis|report|data|dataset|peer[- ]reviewed)\b/i.test(text)) {
+    adjust(5, 'references research or data')
+  }
+
+  return {
+    score: Math.max(0, Math.min(100, score)),
+    signals,
+  }
+}
+
+export function withCredibility(results: SearchResult[]): SearchResult[] {
+  return results.map(result => ({ ...result, credibility: scoreSearchResult(result) }))
+}
+
+// Most credible first; ties keep the provider's relevance order
+export function rankByCredibility(results: SearchResult[]): SearchResult[] {
+  return results
+    .map((result, index) => ({ result, index }))
+    .sort(
+      (a, b) =>
+        (b.result.credibility?.score ?? 0) - (a.result.credibility?.score ?? 0) ||
+        a.index - b.index
+    )
+    .map(({ result }) => result)
+}
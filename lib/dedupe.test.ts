@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { canonicalizeUrl, dedupeByContent, jaccard, shingles, uniqueUrls } from './dedupe'
+
+describe('canonicalizeUrl', () => {
+  it.each([
+    ['drops tracking parameters', 'https://example.com/a?utm_source=x&id=7&fbclid=abc&gclid=1', 'https://example.com/a?id=7'],
+    ['sorts the parameters it keeps', 'https://example.com/a?b=2&a=1', 'https://example.com/a?a=1&b=2'],
+    ['drops AMP switches', 'https://example.com/a?amp=1&outputType=amp', 'https://example.com/a'],
+    ['drops trailing slashes', 'https://example.com/a/b/', 'https://example.com/a/b'],
+    ['keeps the root path', 'https://example.com/', 'https://example.com/'],
+    ['drops index pages', 'https://example.com/news/index.html', 'https://example.com/news'],
+    ['drops www subdomains', 'https://www.Example.com/a', 'https://example.com/a'],
+    ['drops mobile subdomains', 'https://m.example.com/a', 'https://example.com/a'],
+    ['drops numbered www subdomains', 'https://www2.example.com/a', 'https://example.com/a'],
+    ['drops fragments', 'https://example.com/a#section-2', 'https://example.com/a'],
+    ['treats http and https alike', 'http://example.com/a', 'https://example.com/a'],
+    ['unwraps the AMP cache', 'https://example-com.cdn.ampproject.org/c/s/example.com/a/amp', 'https://example.com/a'],
+    ['unwraps the Google AMP viewer', 'https://www.google.com/amp/s/example.com/a.amp.html', 'https://example.com/a.html'],
+  ])('%s', (_, url, expected) => {
+    expect(canonicalizeUrl(url)).toBe(expected)
+  })
+
+  it('leaves unparseable and non-web URLs alone', () => {
+    expect(canonicalizeUrl(' not a url ')).toBe('not a url')
+    expect(canonicalizeUrl('mailto:someone@example.com')).toBe('mailto:someone@example.com')
+  })
+})
+
+describe('uniqueUrls', () => {
+  it('keeps the first spelling of each page', () => {
+    expect(
+      uniqueUrls([
+        'https://www.example.com/a/?utm_medium=email',
+        'http://example.com/a',
+        'https://example.com/b',
+      ])
+    ).toEqual(['https://www.example.com/a/?utm_medium=email', 'https://example.com/b'])
+  })
+})
+
+describe('shingles', () => {
+  it('ignores case and punctuation', () => {
+    expect(shingles('The quick, brown fox!', 2)).toEqual(shingles('the QUICK brown fox', 2))
+  })
+
+  it('fingerprints texts shorter than the shingle size as a whole', () => {
+    expect(shingles('two words', 5).size).toBe(1)
+    expect(shingles('', 5).size).toBe(0)
+  })
+})
+
+describe('dedupeByContent', () => {
+  const words = (count: number, prefix = 'word') =>
+    Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ')
+
+  it('drops items at or above the threshold and keeps ones below it', () => {
+    const original = words(8)
+    // With single-word shingles, similarity is shared words over all distinct words
+    const atThreshold = `${original} extra0 extra1` // 8 / 10
+    const belowThreshold = `${words(6)} other0 other1 other2` // 6 / 11 against the original
+    expect(jaccard(shingles(original, 1), shingles(atThreshold, 1))).toBe(0.8)
+
+    const kept = dedupeByContent([original, atThreshold, belowThreshold], text => text, {
+      threshold: 0.8,
+      shingleSize: 1,
+    })
+    expect(kept).toEqual([original, belowThreshold])
+  })
+
+  it('uses the configured threshold and shingle size by default', () => {
+    const original = words(40)
+    const syndicated = `${original} Originally published elsewhere`
+    const unrelated = words(40, 'other')
+
+    const kept = dedupeByContent([original, syndicated, unrelated], text => text)
+    expect(kept).toEqual([original, unrelated])
+  })
+
+  it('never treats empty texts as duplicates', () => {
+    expect(dedupeByContent(['', ''], text => text)).toEqual(['', ''])
+  })
+})
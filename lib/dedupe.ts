@@ -0,0 +1,154 @@
+import { CONFIG } from '@/lib/config'
+import { type SearchResult } from '@/types'
+
+// Query parameters that only identify the click, never the content
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'yclid', 'igshid', 'mc_cid', 'mc_eid',
+  'ref_src', 'ref_url', 'spm', 'cmpid', '_ga', '_gl',
+])
+
+function isIgnoredParam(name: string, value: string): boolean {
+  const key = name.toLowerCase()
+  if (key.startsWith('utm_') || TRACKING_PARAMS.has(key)) return true
+  // AMP switches: ?amp, ?amp=1, ?outputType=amp
+  return key === 'amp' || (key === 'outputtype' && value.toLowerCase() === 'amp')
+}
+
+// Google's AMP cache and viewer wrap the publisher URL: /c/s/host/path or /amp/s/host/path
+function unwrapAmpCache(url: URL): URL {
+  const cachePath = url.hostname.endsWith('.cdn.ampproject.org')
+    ? url.pathname.match(/^\/[a-z](?:\/s)?\/(.+)$/)
+    : /(^|\.)google\.[a-z.]+$/.test(url.hostname)
+      ? url.pathname.match(/^\/amp\/(?:s\/)?(.+)$/)
+      : null
+  if (!cachePath) return url
+
+  try {
+    return new URL(`https://${cachePath[1]}${url.search}`)
+  } catch {
+    return url
+  }
+}
+
+// Normalize a URL so trivially different links to the same page compare equal:
+// scheme, www., AMP variants, tracking parameters, fragments and trailing slashes
+export function canonicalizeUrl(rawUrl: string): string {
+  let url: URL
+  try {
+    url = unwrapAmpCache(new URL(rawUrl.trim()))
+  } catch {
+    return rawUrl.trim()
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return url.toString()
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^(www\d*|amp|m)\./, '')
+  const pathname =
+    url.pathname
+      .replace(/\/amp(\.html)?\/?$/i, '/')
+      .replace(/\.amp(\.html)?$/i, '$1')
+      .replace(/\/{2,}/g, '/')
+      .replace(/\/index\.(html?|php)$/i, '/')
+      .replace(/(.)\/$/, '$1')
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name, value]) => !isIgnoredParam(name, value))
+    .sort(([a], [b]) => a.localeCompare(b))
+  const search = new URLSearchParams(params).toString()
+
+  return `https://${hostname}${pathname}${search ? `?${search}` : ''}`
+}
+
+// Unique URLs by canonical form, keeping the first spelling seen
+export function uniqueUrls(urls: string[]): string[] {
+  const seen = new Set<string>()
+  return urls.filter(url => {
+    const canonical = canonicalizeUrl(url)
+    if (seen.has(canonical)) return false
+    seen.add(canonical)
+    return true
+  })
+}
+
+// FNV-1a, enough to keep shingle sets small
+function hash(text: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+// Hashed word n-grams of a text
+export function shingles(text: string, size: number = CONFIG.dedupe.shingleSize): Set<number> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+  const result = new Set<number>()
+  if (words.length < size) {
+    if (words.length > 0) result.add(hash(words.join(' ')))
+    return result
+  }
+  for (let i = 0; i + size <= words.length; i++) {
+    result.add(hash(words.slice(i, i + size).join(' ')))
+  }
+  return result
+}
+
+export function jaccard(a: Set<number>, b: Set<number>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  const [smaller, larger] = a.size < b.size ? [a, b] : [b, a]
+  let intersection = 0
+  for (const value of smaller) {
+    if (larger.has(value)) intersection++
+  }
+  return intersection / (a.size + b.size - intersection)
+}
+
+// Drop items whose text is a near-copy of an earlier item (mirrors, syndicated articles)
+export function dedupeByContent<T>(
+  items: T[],
+  getText: (item: T) => string,
+  {
+    threshold = CONFIG.dedupe.nearDuplicateThreshold,
+    shingleSize = CONFIG.dedupe.shingleSize,
+  }: { threshold?: number; shingleSize?: number } = {}
+): T[] {
+  const kept: Array<{ item: T; shingles: Set<number> }> = []
+
+  for (const item of items) {
+    const itemShingles = shingles(getText(item), shingleSize)
+    const duplicate = kept.some(other => jaccard(itemShingles, other.shingles) >= threshold)
+    if (duplicate) {
+      console.log('Dropping near-duplicate content')
+    } else {
+      kept.push({ item, shingles: itemShingles })
+    }
+  }
+
+  return kept.map(({ item }) => item)
+}
+
+// Merge results pointing at the same page, then results that are the same article on
+// another site. The first result of each group wins; its snippet is kept unless a
+// duplicate has a longer one
+export function dedupeSearchResults(results: SearchResult[]): SearchResult[] {
+  const byUrl = new Map<string, SearchResult>()
+
+  for (const result of results) {
+    const canonical = canonicalizeUrl(result.url)
+    const existing = byUrl.get(canonical)
+    if (!existing) {
+      byUrl.set(canonical, { ...result })
+    } else if (result.snippet.length > existing.snippet.length) {
+      existing.snippet = result.snippet
+    }
+  }
+
+  // Snippets are short, so compare title and snippet with smaller shingles
+  return dedupeByContent(
+    Array.from(byUrl.values()),
+    result => `${result.name} ${result.snippet}`,
+    { shingleSize: 3 }
+  )
+}
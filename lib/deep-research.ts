@@ -0,0 +1,636 @@
+import { searchRatelimit, fetchContentRatelimit } from '@/lib/redis'
+import { CONFIG } from '@/lib/config'
+import { generateStructured } from '@/lib/llm/structured'
+import { serpQueriesSchema, serpResultSchema } from '@/lib/schemas'
+import { searchWith } from '@/lib/search'
+import { extractContent } from '@/lib/content'
+import { canonicalizeUrl, dedupeByContent, dedupeSearchResults, uniqueUrls } from '@/lib/dedupe'
+import { rankByCredibility, withCredibility } from '@/lib/credibility'
+import { estimateTokens } from '@/lib/llm/budget'
+import pLimit from 'p-limit'
+import {
+  type BranchStopReason,
+  type DeepResearchResult,
+  type DeepSearchEvent,
+  type Learning,
+  type ResearchNode,
+  type SearchFilters,
+  type SearchResult,
+  type SerpQuery,
+} from '@/types'
+
+// Reduce concurrency
+const ConcurrencyLimit = 1//change from 2 to 1
+
+// System prompt for research consistency
+// commented out system prompt never used in npm run build 
+// const systemPrompt = () => {
+//   const now = new Date().toISOString()
+//   return `You are an expert researcher. Today is ${now}. Follow these instructions when responding:
+//   - You may be asked to research subjects that is after your knowledge cutoff, assume the user is right when presented with news.
+//   - The user is a highly experienced analyst, no need to simplify it, be as detailed as possible and make sure your response is correct.
+//   - Be highly organized.
+//   - Suggest solutions that I didn't think about.
+//   - Be proactive and anticipate my needs.
+//   - Treat me as an expert in all subject matter.
+//   - Mistakes erode my trust, so be accurate and thorough.
+//   - Provide detailed explanations, I'm comfortable with lots of detail.
+//   - Value good arguments over authorities, the source is irrelevant.
+//   - Consider new technologies and contrarian ideas, not just the conventional wisdom.
+//   - You may use high levels of speculation or prediction, just flag it for me.`
+// }
+
+// Generate SERP queries using AI
+async function generateSerpQueries({
+  query,
+  numQueries = 3,
+  learnings,
+  brief,
+  platformModel,
+  usage,
+}: {
+  query: string
+  numQueries?: number
+  learnings?: Learning[]
+  brief?: string
+  platformModel: string
+  usage?: ResearchUsage
+}): Promise<SerpQuery[]> {
+  console.log(`Generating SERP queries for: "${query}", max queries: ${numQueries}`)
+  
+  const prompt = `Given the following prompt from the user, generate a list of SERP queries to research the topic. Return a maximum of ${numQueries} queries, but feel free to return less if the original prompt is clear. Make sure each query is unique and not similar to each other. Return the response in JSON format with a "queries" array containing objects with "query" and "researchGoal" properties: <prompt>${query}</prompt>\n\n${brief ? `${brief}\n\n` : ''}${
+    learnings
+      ? `Here are some learnings from previous research, use them to generate more specific queries: ${learnings
+          .map(learning => learning.text)
+          .join('\n')}`
+      : ''
+  }`
+
+  console.log(`Sending prompt to ${platformModel}:`, prompt)
+
+  try {
+    const parsed = await generateStructured(platformModel, {
+      prompt,
+      schema: serpQueriesSchema,
+      maxTokens: 8192,
+    })
+    recordTokens(usage, prompt, parsed)
+
+    const queries = parsed.queries.slice(0, numQueries)
+    console.log('Generated queries:', queries)
+    return queries
+  } catch (e) {
+    console.error('Failed to parse AI response:', e)
+    throw new Error('Failed to generate search queries')
+  }
+}
+
+type ProcessedResult = {
+  learnings: Learning[]
+  followUpQuestions: string[]
+}
+
+// Add SearchResponse type definition at the top
+type SearchResponse = {
+  data: Array<{
+    url: string
+    markdown: string
+  }>
+}
+
+// Search through the configured provider with rate limiting
+async function rateLimitedSearch(query: string, filters?: SearchFilters): Promise<SearchResult[]> {
+  if (CONFIG.rateLimits.enabled) {
+    const { success } = await searchRatelimit.limit(query)
+    if (!success) {
+      throw new Error('Search rate limit exceeded')
+    }
+  }
+
+  // Providers that need to pace themselves (e.g. DuckDuckGo) add their own delays
+  return searchWith(CONFIG.deepResearch.searchType, query, { count: 5, filters })
+}
+
+// Implement global rate limit tracking
+let totalContentRequests = 0;
+setInterval(() => { totalContentRequests = 0 }, 60000);
+
+// Fetch page content through the configured extractor with rate limiting
+async function fetchPageContent(url: string): Promise<string> {
+  if (totalContentRequests >= CONFIG.rateLimits.contentFetch) {
+    throw new Error('Global content fetch rate limit exceeded');
+  }
+  totalContentRequests++;
+
+  if (CONFIG.rateLimits.enabled) {
+    const { success } = await fetchContentRatelimit.limit(url)
+    if (!success) {
+      throw new Error('Content fetch rate limit exceeded')
+    }
+  }
+
+  return extractContent(url)
+}
+
+// Add retry logic for searches
+async function executeSearchWithRetry(query: string, filters?: SearchFilters): Promise<SearchResult[]> {
+  const maxRetries = 3;
+  let retries = 0;
+  
+  while (retries < maxRetries) {
+    try {
+      return await rateLimitedSearch(query, filters);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('rate limit')) {
+        const delay = Math.pow(2, retries) * 1000;
+        console.log(`Retrying search in ${delay}ms (attempt ${retries + 1}/${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        retries++;
+      } else {
+        throw error;
+      }
+    }
+  }
+  throw new Error(`Search failed after ${maxRetries} retries`);
+}
+
+// Update content fetching with retry logic
+async function fetchPageContentWithRetry(url: string): Promise<string> {
+  // Add initial delay
+  await new Promise(resolve => setTimeout(resolve, 4500 + Math.random() * 2000));
+
+  const maxRetries = 2;
+  let retries = 0;
+  
+  while (retries < maxRetries) {
+    try {
+      return await fetchPageContent(url);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('rate limit')) {
+        // Change to random delay between 3-8 seconds
+        const delay = 3000 + Math.random() * 5000;
+        console.log(`Retrying content fetch in ${delay}ms (attempt ${retries + 1}/${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        retries++;
+      } else {
+        throw error;
+      }
+    }
+  }
+  throw new Error(`Content fetch failed after ${maxRetries} retries`);
+}
+
+// Fix type in processSerpResult parameters
+async function processSerpResult({
+  query,
+  result,
+  numLearnings = 3,
+  numFollowUpQuestions = 3,
+  platformModel,
+  usage,
+}: {
+  query: string
+  result: SearchResponse  // Now using our defined type
+  numLearnings?: number
+  numFollowUpQuestions?: number
+  platformModel: string
+  usage?: ResearchUsage
+}): Promise<ProcessedResult> {
+  const contents = result.data.filter(item => item.markdown)
+  console.log(`Ran ${query}, found ${contents.length} contents`)
+
+  const prompt = `Given the following contents from a SERP search for the query <query>${query}</query>, generate a list of learnings and follow-up questions. Return the response in JSON format with a "learnings" array (max ${numLearnings} items) and a "followUpQuestions" array (max ${numFollowUpQuestions} items). The learnings should be concise and information-dense, including any entities, metrics, numbers, or dates. For each learning, list in "sources" the numbers of the contents it was drawn from.
+
+Contents:
+${contents.map((item, index) => `<content source="${index + 1}" url="${item.url}">\n${item.markdown}\n</content>`).join('\n')}
+
+Return your response in this exact JSON format:
+{
+  "learnings": [
+    { "text": "Learning 1", "sources": [1] },
+    { "text": "Learning 2", "sources": [2, 3] },
+    { "text": "Learning 3", "sources": [1] }
+  ],
+  "followUpQuestions": [
+    "Question 1?",
+    "Question 2?",
+    "Question 3?"
+  ]
+}`
+
+  try {
+    const parsed = await generateStructured(platformModel, {
+      prompt,
+      schema: serpResultSchema,
+      maxTokens: 8192,
+    })
+    recordTokens(usage, prompt, parsed)
+    console.log('Received learnings from model for SERP processing:', parsed)
+
+    // Swap content numbers for the URLs they were fetched from, dropping invented ones
+    return {
+      learnings: parsed.learnings.slice(0, numLearnings).map(learning => ({
+        text: learning.text,
+        urls: uniqueUrls(
+          learning.sources
+            .filter(number => number >= 1 && number <= contents.length)
+            .map(number => contents[number - 1].url)
+        ),
+      })),
+      followUpQuestions: parsed.followUpQuestions.slice(0, numFollowUpQuestions)
+    }
+  } catch (e) {
+    console.error('Failed to parse AI response:', e)
+    throw new Error('Failed to process search results')
+  }
+}
+
+// What a run has spent so far, checked against the adaptive budgets
+export type ResearchUsage = {
+  queries: number
+  fetches: number
+  tokens: number
+  startedAt: number
+}
+
+export type ResearchContext = {
+  platformModel: string
+  // Stop branches on diminishing returns and enforce CONFIG.deepResearch.adaptive budgets
+  adaptive?: boolean
+  // Created when the run starts if not given
+  usage?: ResearchUsage
+  // Time range and region applied to every search in the run
+  filters?: SearchFilters
+  // The user's answers to clarifying questions, folded into every query generation
+  brief?: string
+  // Flat list of every query node in the run, updated in place as research progresses
+  nodes: ResearchNode[]
+  onProgress?: (event: DeepSearchEvent) => void
+  // Called whenever the tree changes so callers can persist it
+  onCheckpoint?: () => Promise<void>
+  // Checked before each query; remaining queries are left pending when it returns true
+  shouldStop?: () => Promise<boolean>
+}
+
+function recordTokens(usage: ResearchUsage | undefined, prompt: string, response: unknown) {
+  if (usage) {
+    usage.tokens += estimateTokens(prompt) + estimateTokens(JSON.stringify(response))
+  }
+}
+
+// The first budget the run has used up; budgets only apply to adaptive runs
+function exhaustedBudget(context: ResearchContext): BranchStopReason | null {
+  const { usage } = context
+  if (!context.adaptive || !usage) return null
+
+  const { maxQueries, maxFetches, maxTokens, maxDurationMs } = CONFIG.deepResearch.adaptive
+  if (usage.queries >= maxQueries) return 'query-budget'
+  if (usage.fetches >= maxFetches) return 'fetch-budget'
+  if (usage.tokens >= maxTokens) return 'token-budget'
+  if (Date.now() - usage.startedAt >= maxDurationMs) return 'time-budget'
+  return null
+}
+
+// Words that carry meaning; short ones are mostly function words
+function contentWords(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(word => word.length > 3))
+}
+
+// How much of what was just learned is new: for each learning, the share of its
+// words not covered by the most similar known learning, averaged over the batch
+export function measureNovelty(newLearnings: Learning[], known: Learning[]): number {
+  if (newLearnings.length === 0) return 0
+  if (known.length === 0) return 1
+
+  const knownWords = known.map(learning => contentWords(learning.text))
+  const scores = newLearnings.map(learning => {
+    const words = contentWords(learning.text)
+    if (words.size === 0) return 0
+    const covered = Math.max(
+      ...knownWords.map(other => Array.from(words).filter(word => other.has(word)).length)
+    )
+    return 1 - covered / words.size
+  })
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length
+}
+
+// Why a completed node's branch should go no deeper, or null to follow it up
+function branchStopReason(
+  node: ResearchNode,
+  newDepth: number,
+  context: ResearchContext
+): BranchStopReason | null {
+  if (newDepth <= 0) return 'max-depth'
+  if (!context.adaptive) return null
+  if (node.followUpQuestions.length === 0) return 'no-follow-ups'
+  if ((node.novelty ?? 1) < CONFIG.deepResearch.adaptive.minNovelty) return 'low-novelty'
+  return exhaustedBudget(context)
+}
+
+function createResearchNode(
+  serpQuery: SerpQuery,
+  parentId: string | null,
+  depth: number
+): ResearchNode {
+  return {
+    id: crypto.randomUUID(),
+    parentId,
+    query: serpQuery.query,
+    researchGoal: serpQuery.researchGoal,
+    depth,
+    status: 'pending',
+    urls: [],
+    learnings: [],
+    followUpQuestions: [],
+  }
+}
+
+// Search, fetch and summarize a single query, then recurse into its follow-ups
+async function researchNode({
+  node,
+  breadth,
+  depth,
+  learnings,
+  visitedUrls,
+  context,
+}: {
+  node: ResearchNode
+  breadth: number
+  depth: number
+  learnings: Learning[]
+  visitedUrls: string[]
+  context: ResearchContext
+}): Promise<DeepResearchResult> {
+  const { platformModel, onProgress, onCheckpoint, shouldStop, usage } = context
+  const newBreadth = Math.ceil(breadth / 2)
+  const newDepth = depth - 1
+
+  try {
+    if (node.status === 'completed') {
+      // Already done in an earlier run of this job
+      onProgress?.({ type: 'learnings', query: node.query, learnings: node.learnings })
+    } else {
+      const skipReason = (await shouldStop?.()) ? 'cancelled' : exhaustedBudget(context)
+      if (skipReason) {
+        node.stopReason = skipReason
+        onProgress?.({ type: 'query-skipped', query: node.query, reason: skipReason })
+        await onCheckpoint?.()
+        return { learnings: [], visitedUrls: [], errors: [] }
+      }
+
+      node.status = 'running'
+      node.error = undefined
+      node.stopReason = undefined
+      if (usage) usage.queries++
+      await onCheckpoint?.()
+
+      console.log(`Searching ${CONFIG.deepResearch.searchType} for query: "${node.query}"`)
+      onProgress?.({ type: 'search', depth, query: node.query })
+      const searchResults = dedupeSearchResults(await executeSearchWithRetry(node.query, context.filters))
+
+      // Fetch content for the 5 most credible results, fewer if the fetch budget is nearly spent
+      const fetchLimit = context.adaptive && usage
+        ? Math.max(Math.min(5, CONFIG.deepResearch.adaptive.maxFetches - usage.fetches), 0)
+        : 5
+      const limitedResults = rankByCredibility(withCredibility(searchResults)).slice(0, fetchLimit)
+      if (usage) usage.fetches += limitedResults.length
+      console.log(`Found ${limitedResults.length} results for "${node.query}"`)
+
+      // Fetch content for all results using the configured extractor
+      const contentPromises = limitedResults.map(async (result) => {
+        try {
+          const markdown = await fetchPageContentWithRetry(result.url)
+          onProgress?.({ type: 'fetch', query: node.query, url: result.url, success: true })
+          return {
+            url: result.url,
+            markdown
+          }
+        } catch (error) {
+          console.error(`Skipping ${result.url}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+          onProgress?.({ type: 'fetch', query: node.query, url: result.url, success: false })
+          return null
+        }
+      })
+
+      const fetchedContents = (await Promise.all(contentPromises)).filter((item): item is { url: string, markdown: string } => item !== null)
+      // Mirrors and syndicated copies would count the same facts twice
+      const contents = dedupeByContent(fetchedContents, item => item.markdown)
+      console.log(`Successfully fetched ${contents.length} unique contents for "${node.query}"`)
+
+      const processedResult = await processSerpResult({
+        query: node.query,
+        result: { data: contents } as SearchResponse,
+        numFollowUpQuestions: newBreadth,
+        platformModel,
+        usage,
+      })
+      onProgress?.({ type: 'learnings', query: node.query, learnings: processedResult.learnings })
+
+      // Compare against everything learned so far in the run, not just this branch
+      const knownLearnings = context.nodes
+        .filter(other => other !== node && other.status === 'completed')
+        .flatMap(other => other.learnings)
+
+      node.urls = contents.map(item => item.url)
+      node.learnings = processedResult.learnings
+      node.followUpQuestions = processedResult.followUpQuestions
+      node.novelty = measureNovelty(node.learnings, knownLearnings)
+      node.status = 'completed'
+      await onCheckpoint?.()
+    }
+
+    const allLearnings = [...learnings, ...node.learnings]
+    const allUrls = [...visitedUrls, ...node.urls]
+
+    const stopReason = branchStopReason(node, newDepth, context) ?? undefined
+    if (stopReason !== node.stopReason) {
+      node.stopReason = stopReason
+      await onCheckpoint?.()
+    }
+
+    if (!stopReason) {
+      const nextQuery = `
+        Previous research goal: ${node.researchGoal}
+        Follow-up research directions: ${node.followUpQuestions.join('\n')}
+      `.trim()
+
+      return deepResearch({
+        query: nextQuery,
+        breadth: newBreadth,
+        depth: newDepth,
+        learnings: allLearnings,
+        visitedUrls: allUrls,
+        parentId: node.id,
+        context,
+      })
+    }
+
+    console.log(`Branch "${node.query}" stopped: ${stopReason}`)
+    return {
+      learnings: allLearnings,
+      visitedUrls: allUrls,
+      errors: []
+    }
+  } catch (error) {
+    const errorMsg = `Failed to process query "${node.query}": ${error instanceof Error ? error.message : 'Unknown error'}`
+    console.error(errorMsg)
+    onProgress?.({ type: 'query-error', query: node.query, error: errorMsg })
+    if (node.status !== 'completed') {
+      node.status = 'failed'
+      node.error = errorMsg
+    }
+    node.stopReason = 'failed'
+    await onCheckpoint?.()
+    return {
+      learnings: [],
+      visitedUrls: [],
+      errors: [errorMsg]
+    }
+  }
+}
+
+// Generate the first-level queries of a run so they can be reviewed before it starts
+export async function planResearch({
+  query,
+  breadth,
+  brief,
+  platformModel,
+}: {
+  query: string
+  breadth: number
+  brief?: string
+  platformModel: string
+}): Promise<SerpQuery[]> {
+  return generateSerpQueries({ query, numQueries: breadth, brief, platformModel })
+}
+
+// Seed a run with an approved plan; deepResearch researches existing nodes
+// instead of generating its own first-level queries
+export function createPlanNodes(plan: SerpQuery[], depth: number): ResearchNode[] {
+  return plan.map(serpQuery => createResearchNode(serpQuery, null, depth))
+}
+
+// Branches share ancestors' learnings, so the same learning comes back more than
+// once; keep one copy with the sources of all of them
+function mergeLearnings(learnings: Learning[]): Learning[] {
+  const byText = new Map<string, Learning>()
+  for (const learning of learnings) {
+    const existing = byText.get(learning.text)
+    byText.set(
+      learning.text,
+      existing ? { ...existing, urls: uniqueUrls([...existing.urls, ...learning.urls]) } : learning
+    )
+  }
+  return Array.from(byText.values())
+}
+
+// Main deep research function
+export async function deepResearch({
+  query,
+  breadth,
+  depth,
+  learnings = [],
+  visitedUrls = [],
+  parentId = null,
+  context,
+}: {
+  query: string
+  breadth: number
+  depth: number
+  learnings?: Learning[]
+  visitedUrls?: string[]
+  parentId?: string | null
+  context: ResearchContext
+}): Promise<DeepResearchResult> {
+  console.log(`Starting deep research with query: "${query}", depth: ${depth}, breadth: ${breadth}`)
+
+  if (!context.usage) {
+    context.usage = { queries: 0, fetches: 0, tokens: 0, startedAt: Date.now() }
+  }
+
+  // Reuse this level's queries from a checkpoint when resuming, otherwise generate them
+  let levelNodes = context.nodes.filter(node => node.parentId === parentId)
+  if (levelNodes.length === 0) {
+    let serpQueries: SerpQuery[]
+    try {
+      serpQueries = await generateSerpQueries({
+        query,
+        learnings,
+        numQueries: breadth,
+        brief: context.brief,
+        platformModel: context.platformModel,
+        usage: context.usage,
+      })
+      console.log('Generated SERP queries:', serpQueries)
+    } catch {
+      throw new Error('Failed to generate initial search queries')
+    }
+
+    levelNodes = serpQueries.map(serpQuery => createResearchNode(serpQuery, parentId, depth))
+    context.nodes.push(...levelNodes)
+    await context.onCheckpoint?.()
+  }
+
+  context.onProgress?.({
+    type: 'queries',
+    depth,
+    breadth,
+    queries: levelNodes.map(({ query, researchGoal }) => ({ query, researchGoal })),
+  })
+
+  const limit = pLimit(ConcurrencyLimit)
+
+  const results = await Promise.all(
+    levelNodes.map(node =>
+      limit(() =>
+        researchNode({ node, breadth, depth, learnings, visitedUrls, context })
+      )
+    )
+  )
+
+  // Aggregate results with error handling
+  const finalLearnings = mergeLearnings(results.flatMap(r => r.learnings))
+  const finalUrls = uniqueUrls(results.flatMap(r => r.visitedUrls))
+  const allErrors = results.flatMap(r => r.errors || [])
+
+  console.log('Deep research completed:', { 
+    totalLearnings: finalLearnings.length,
+    totalUrls: finalUrls.length,
+    totalErrors: allErrors.length
+  })
+  
+  return {
+    learnings: finalLearnings,
+    visitedUrls: finalUrls,
+    errors: allErrors
+  }
+}
+
+// Shape research results the way the search results list expects them, along with
+// the research tree that produced them. Each page's snippet is what was learned from it
+export function toSearchResponse(
+  learnings: Learning[],
+  visitedUrls: string[],
+  errors: string[],
+  tree: ResearchNode[] = []
+) {
+  return {
+    webPages: {
+      value: visitedUrls.map((url, index) => {
+        const canonical = canonicalizeUrl(url)
+        const pageLearnings = learnings.filter(learning =>
+          learning.urls.some(learningUrl => canonicalizeUrl(learningUrl) === canonical)
+        )
+        return {
+          id: `deep-${Date.now()}-${index}`,
+          url,
+          name: url,
+          snippet: pageLearnings.map(learning => learning.text).join(' ') || 'No learning available',
+        }
+      })
+    },
+    learnings,
+    errors,
+    tree
+  }
+}
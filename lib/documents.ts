@@ -8,14 +8,41 @@ import {
   Header,
   Footer,
   PageNumber,
+  FootnoteReferenceRun,
 } from 'docx'
 import jsPDF from 'jspdf'
 import MarkdownIt from 'markdown-it'
 import PptxGenJS from 'pptxgenjs'
+import { citationsToText, getCitedSources, splitCitations } from '@/lib/citations'
 
 const md = new MarkdownIt()
 
-function processMarkdownContent(content: string): Paragraph[] {
+// Word footnotes collected while the report body is converted
+type DocxFootnotes = {
+  sources: Report['sources']
+  notes: Record<number, { children: Paragraph[] }>
+  nextId: number
+}
+
+// Text runs for a line, with each citation marker turned into its own Word footnote
+function citationRuns(
+  text: string,
+  options: { size: number; bold?: boolean },
+  footnotes: DocxFootnotes
+): Array<TextRun | FootnoteReferenceRun> {
+  return splitCitations(text, footnotes.sources).map(segment => {
+    if (segment.type === 'text') {
+      return new TextRun({ text: segment.text, ...options })
+    }
+    const id = footnotes.nextId++
+    footnotes.notes[id] = {
+      children: [new Paragraph(`${segment.source.name}. ${segment.source.url}`)],
+    }
+    return new FootnoteReferenceRun(id)
+  })
+}
+
+function processMarkdownContent(content: string, footnotes: DocxFootnotes): Paragraph[] {
   const paragraphs: Paragraph[] = [];
   const lines = content.split('\n');
   lines.forEach(line => {
@@ -24,39 +51,24 @@ function processMarkdownContent(content: string): Paragraph[] {
     // Handle headings
     if (trimmed.startsWith('### ')) {
       paragraphs.push(new Paragraph({
-        children: [new TextRun({
-          text: trimmed.slice(4),
-          size: 20,
-          bold: true
-        })],
+        children: citationRuns(trimmed.slice(4), { size: 20, bold: true }, footnotes),
         spacing: { before: 400, after: 200 },
       }));
     } else if (trimmed.startsWith('## ')) {
       paragraphs.push(new Paragraph({
-        children: [new TextRun({
-          text: trimmed.slice(3),
-          size: 24,
-          bold: true
-        })],
+        children: citationRuns(trimmed.slice(3), { size: 24, bold: true }, footnotes),
         spacing: { before: 600, after: 400 },
       }));
     } else if (trimmed.startsWith('# ')) {
       paragraphs.push(new Paragraph({
-        children: [new TextRun({
-          text: trimmed.slice(2),
-          size: 28,
-          bold: true
-        })],
+        children: citationRuns(trimmed.slice(2), { size: 28, bold: true }, footnotes),
         spacing: { before: 800, after: 600 },
       }));
     }
     // Handle bullet points
     else if (trimmed.startsWith('* ') || trimmed.startsWith('- ')) {
       paragraphs.push(new Paragraph({
-        children: [new TextRun({
-          text: trimmed.slice(2),
-          size: 24,
-        })],
+        children: citationRuns(trimmed.slice(2), { size: 24 }, footnotes),
         bullet: { level: 0 },
         spacing: { before: 200, after: 200 },
       }));
@@ -64,17 +76,14 @@ function processMarkdownContent(content: string): Paragraph[] {
     // Handle numbered lists
     else if (/^\d+\.\s/.test(trimmed)) {
       paragraphs.push(new Paragraph({
-        children: [new TextRun({
-          text: trimmed.replace(/^\d+\.\s/, ''),
-          size: 24,
-        })],
+        children: citationRuns(trimmed.replace(/^\d+\.\s/, ''), { size: 24 }, footnotes),
         numbering: { level: 0, reference: 'numbered-list' },
         spacing: { before: 200, after: 200 },
       }));
     }
     // Handle regular paragraphs
     else if (trimmed.length > 0) {
-      const textRuns: TextRun[] = [];
+      const textRuns: Array<TextRun | FootnoteReferenceRun> = [];
       
       // Find bold sections
       const boldRegex = /\*\*(.*?)\*\*/g;
@@ -84,26 +93,16 @@ function processMarkdownContent(content: string): Paragraph[] {
       while ((match = boldRegex.exec(trimmed)) !== null) {
         // Add text before match
         if (match.index > lastIndex) {
-          textRuns.push(new TextRun({
-            text: trimmed.slice(lastIndex, match.index),
-            size: 24,
-          }));
+          textRuns.push(...citationRuns(trimmed.slice(lastIndex, match.index), { size: 24 }, footnotes));
         }
         // Add bold text
-        textRuns.push(new TextRun({
-          text: match[1],
-          size: 24,
-          bold: true,
-        }));
+        textRuns.push(...citationRuns(match[1], { size: 24, bold: true }, footnotes));
         lastIndex = match.index + match[0].length;
       }
       
       // Add remaining text after last match
       if (lastIndex < trimmed.length) {
-        textRuns.push(new TextRun({
-          text: trimmed.slice(lastIndex),
-          size: 24,
-        }));
+        textRuns.push(...citationRuns(trimmed.slice(lastIndex), { size: 24 }, footnotes));
       }
 
       paragraphs.push(new Paragraph({
@@ -124,7 +123,26 @@ export async function generateDocx(report: Report): Promise<Buffer> {
       JSON.stringify(report, null, 2)
     )
 
+    // Body paragraphs are built first so every citation has registered its footnote
+    const footnotes: DocxFootnotes = { sources: report.sources || [], notes: {}, nextId: 1 }
+    const summaryParagraphs = processMarkdownContent(report.summary || '', footnotes)
+    const sectionParagraphs = report.sections.flatMap((section) => [
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: section.title || '',
+            size: 32,
+            bold: true,
+          }),
+        ],
+        spacing: { before: 800, after: 400 },
+        alignment: AlignmentType.LEFT,
+      }),
+      ...processMarkdownContent(section.content || '', footnotes),
+    ])
+
     const doc = new Document({
+      footnotes: footnotes.notes,
       sections: [
         {
           properties: {},
@@ -174,22 +192,9 @@ export async function generateDocx(report: Report): Promise<Buffer> {
               alignment: AlignmentType.CENTER,
             }),
             // Summary with increased spacing
-            ...processMarkdownContent(report.summary || ''),
+            ...summaryParagraphs,
             // Sections with increased spacing
-            ...report.sections.flatMap((section) => [
-              new Paragraph({
-                children: [
-                  new TextRun({
-                    text: section.title || '',
-                    size: 32,
-                    bold: true,
-                  }),
-                ],
-                spacing: { before: 800, after: 400 },
-                alignment: AlignmentType.LEFT,
-              }),
-              ...processMarkdownContent(section.content || ''),
-            ]),
+            ...sectionParagraphs,
           ],
         },
       ],
@@ -259,7 +264,7 @@ export async function generatePptx(report: Report): Promise<Buffer> {
       })
       
       // Process content with bullet points and numbered lists
-      const content = section.content.split('\n').reduce<PptxGenJS.TextProps[]>((acc, line) => {
+      const content = citationsToText(section.content).split('\n').reduce<PptxGenJS.TextProps[]>((acc, line) => {
         const trimmed = line.trim();
         
         // Handle numbered lists (1., 2., etc)
@@ -440,7 +445,7 @@ export function generatePdf(report: Report): Buffer {
     currentY += 5 // Reduced from 10 to 5
 
     // Convert markdown to HTML for processing
-    const summaryHtml = md.render(report.summary)
+    const summaryHtml = md.render(citationsToText(report.summary))
     currentY = addText(summaryHtml, currentY, 12, false, true, true)
     currentY += 3 // Reduced from 10 to 3
 
@@ -453,11 +458,22 @@ export function generatePdf(report: Report): Buffer {
       currentY += 2 // Reduced from 5 to 2
 
       // Convert markdown to HTML for processing
-      const contentHtml = md.render(section.content)
+      const contentHtml = md.render(citationsToText(section.content))
       currentY = addText(contentHtml, currentY, 12, false, true, true)
       currentY += 2 // Reduced from 5 to 2
     })
 
+    // jsPDF has no footnotes, so citations resolve to endnotes
+    const citedSources = getCitedSources(report)
+    if (citedSources.length > 0) {
+      currentY += 2
+      currentY = addText('Notes', currentY, 16, true)
+      currentY += 2
+      citedSources.forEach(({ number, source }) => {
+        currentY = addText(`[${number}] ${source.name}. ${source.url}`, currentY, 10)
+      })
+    }
+
     // Add page numbers
     const pageCount = doc.internal.pages.length - 1
     for (let i = 1; i <= pageCount; i++) {
@@ -1,79 +1,170 @@
-import { useState, useEffect } from 'react'
-import { type KnowledgeBaseReport, type Report } from '@/types'
+import { useState, useEffect, useCallback } from 'react'
+import { CONFIG } from '@/lib/config'
+import { type Article, type KnowledgeBaseReport, type Report } from '@/types'
 import {
   addToKnowledgeBase,
   getKnowledgeBaseReports,
+  getKnowledgeBaseUsage,
   deleteFromKnowledgeBase,
-  searchKnowledgeBase,
+  clearKnowledgeBase,
+  evictOldestReports,
+  removeSourceTexts,
+  reportMatchesQuery,
+  subscribeToKnowledgeBase,
+  type KnowledgeBaseUsage,
 } from '@/lib/knowledge-base'
+import {
+  adoptLocalKnowledgeBase,
+  countUnownedReports,
+  getKnowledgeBaseSession,
+  signIn as signInToServer,
+  signOut as signOutOfServer,
+  syncKnowledgeBase,
+  type KnowledgeBaseSession,
+} from '@/lib/knowledge-base-sync'
+
+// Local reports from another account (or none) waiting on the user to decide
+// whether they go into the signed-in one
+export type PendingMerge = {
+  username: string
+  reports: number
+}
 
 export function useKnowledgeBase() {
   const [reports, setReports] = useState<KnowledgeBaseReport[]>([])
+  const [usage, setUsage] = useState<KnowledgeBaseUsage | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [session, setSession] = useState<KnowledgeBaseSession | null>(null)
+  const [syncing, setSyncing] = useState(false)
+  const [syncError, setSyncError] = useState<string | null>(null)
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null)
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null)
 
-  useEffect(() => {
-    // Load reports on mount
-    setReports(getKnowledgeBaseReports())
+  const refresh = useCallback(async () => {
+    const loadedReports = await getKnowledgeBaseReports()
+    setReports(loadedReports)
+    setLoading(false)
+    setUsage(await getKnowledgeBaseUsage(loadedReports))
+  }, [])
 
-    // Listen for storage events from other tabs/windows
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'knowledge_base') {
-        setReports(getKnowledgeBaseReports())
+  // Sync with the server knowledge base when it's enabled and the user is signed in
+  const sync = useCallback(async () => {
+    const currentSession = CONFIG.knowledgeBase.server.enabled ? getKnowledgeBaseSession() : null
+    if (!currentSession) return
+
+    setSyncing(true)
+    try {
+      const unownedReports = await countUnownedReports(currentSession)
+      if (unownedReports > 0) {
+        setPendingMerge({ username: currentSession.username, reports: unownedReports })
+        return
       }
+      await syncKnowledgeBase(currentSession)
+      setSyncError(null)
+      setLastSyncedAt(Date.now())
+    } catch (error) {
+      console.error('Knowledge base sync failed:', error)
+      setSyncError(error instanceof Error ? error.message : 'Failed to sync knowledge base')
+      setSession(getKnowledgeBaseSession())
+    } finally {
+      setSyncing(false)
     }
+  }, [])
 
-    // Listen for custom knowledge base change events (same window)
-    const handleKnowledgeBaseChange = () => {
-      setReports(getKnowledgeBaseReports())
-    }
+  useEffect(() => {
+    // Load reports on mount, then follow changes from this and other tabs
+    refresh()
+    return subscribeToKnowledgeBase(refresh)
+  }, [refresh])
 
-    // Listen for both storage and custom events
-    window.addEventListener('storage', handleStorageChange)
-    window.addEventListener('knowledge_base_change', handleKnowledgeBaseChange)
+  useEffect(() => {
+    if (!CONFIG.knowledgeBase.server.enabled) return
 
-    return () => {
-      window.removeEventListener('storage', handleStorageChange)
-      window.removeEventListener('knowledge_base_change', handleKnowledgeBaseChange)
-    }
-  }, [])
+    setSession(getKnowledgeBaseSession())
+    sync()
+    // Pick up changes made on other devices when the user comes back
+    window.addEventListener('focus', sync)
+    return () => window.removeEventListener('focus', sync)
+  }, [sync])
 
-  const addReport = (report: Report, query: string) => {
+  // Local changes are pushed to the server straight away
+  const syncAfter = async (success: boolean) => {
+    if (success) sync()
+    return success
+  }
+
+  const addReport = async (report: Report, query: string, articles?: Article[]) => {
     const newReport: KnowledgeBaseReport = {
       id: `kb-${Date.now()}`,
       timestamp: Date.now(),
       query,
       report,
+      articles,
     }
-
-    const success = addToKnowledgeBase(newReport)
-    if (success) {
-      setReports(getKnowledgeBaseReports())
-    }
-    return success
+    return syncAfter(await addToKnowledgeBase(newReport))
   }
 
-  const deleteReport = (reportId: string) => {
-    const success = deleteFromKnowledgeBase(reportId)
-    if (success) {
-      setReports(getKnowledgeBaseReports())
-    }
-    return success
+  const deleteReport = async (reportId: string) => {
+    return syncAfter(await deleteFromKnowledgeBase(reportId))
   }
 
   const searchReports = (query: string) => {
-    return searchKnowledgeBase(query)
+    return reports.filter(report => reportMatchesQuery(report, query))
+  }
+
+  const clearAllReports = async () => {
+    return syncAfter(await clearKnowledgeBase())
+  }
+
+  const deleteOldestReports = async (count: number) => {
+    return syncAfter(await evictOldestReports(count))
+  }
+
+  const dropSourceTexts = async () => {
+    return syncAfter(await removeSourceTexts())
+  }
+
+  const signIn = async (username: string, password: string, register = false) => {
+    const newSession = await signInToServer(username, password, register)
+    setSession(newSession)
+    await sync()
+  }
+
+  // Merge the local reports into the signed-in account, or replace them with its own
+  const resolveMerge = async (merge: boolean) => {
+    const currentSession = getKnowledgeBaseSession()
+    if (currentSession) await adoptLocalKnowledgeBase(currentSession, merge)
+    setPendingMerge(null)
+    await sync()
   }
 
-  const clearAllReports = () => {
-    localStorage.removeItem('knowledge_base')
-    setReports([])
-    return true
+  const signOut = async () => {
+    await signOutOfServer()
+    setSession(null)
+    setPendingMerge(null)
+    setSyncError(null)
+    setLastSyncedAt(null)
   }
 
   return {
     reports,
+    usage,
+    loading,
     addReport,
     deleteReport,
     searchReports,
     clearAllReports,
+    deleteOldestReports,
+    dropSourceTexts,
+    // Server knowledge base; session is null when signed out or not enabled
+    session,
+    syncing,
+    syncError,
+    lastSyncedAt,
+    pendingMerge,
+    resolveMerge,
+    signIn,
+    signOut,
+    syncNow: sync,
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,177 @@
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import { NextResponse } from 'next/server'
+import { CONFIG } from '@/lib/config'
+import { type KnowledgeBaseEntry, type KnowledgeBaseReport } from '@/types'
+import { type EntryChanges, type KnowledgeBaseStore } from './types'
+import { redisStore } from './redis'
+
+export type { EntryChanges, KnowledgeBaseStore, StoredUser } from './types'
+
+export type KnowledgeBaseStoreName = typeof CONFIG.knowledgeBase.server.store
+
+// The sqlite store loads the native better-sqlite3 addon, so it's only imported
+// when configured
+const stores: Record<KnowledgeBaseStoreName, () => Promise<KnowledgeBaseStore>> = {
+  redis: async () => redisStore,
+  sqlite: async () => (await import('./sqlite')).sqliteStore,
+}
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: string,
+  keyLength: number
+) => Promise<Buffer>
+
+const KEY_LENGTH = 64
+const USERNAME_PATTERN = /^[a-z0-9_.-]{3,32}$/
+const MIN_PASSWORD_LENGTH = 8
+// Checked against for unknown usernames, so they take as long to reject as wrong passwords
+const DUMMY_SALT = randomBytes(16).toString('hex')
+const DUMMY_HASH = Buffer.alloc(KEY_LENGTH)
+
+function getStore(): Promise<KnowledgeBaseStore> {
+  return stores[CONFIG.knowledgeBase.server.store]()
+}
+
+export function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase()
+}
+
+// Returns a user-facing error if the credentials can't be used, otherwise null
+export function getCredentialsError(username: unknown, password: unknown): string | null {
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(normalizeUsername(username))) {
+    return 'Username must be 3-32 letters, numbers, dots, dashes or underscores'
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+  }
+  return null
+}
+
+// Resolves to false when the username is taken
+export async function registerUser(username: string, password: string): Promise<boolean> {
+  const salt = randomBytes(16).toString('hex')
+  const hash = await scrypt(password, salt, KEY_LENGTH)
+  const store = await getStore()
+  return store.createUser({
+    username: normalizeUsername(username),
+    passwordHash: hash.toString('hex'),
+    salt,
+    createdAt: Date.now(),
+  })
+}
+
+export async function verifyPassword(username: string, password: string): Promise<boolean> {
+  const store = await getStore()
+  const user = await store.getUser(normalizeUsername(username))
+  const hash = await scrypt(password, user?.salt ?? DUMMY_SALT, KEY_LENGTH)
+  const expected = user ? Buffer.from(user.passwordHash, 'hex') : DUMMY_HASH
+  return timingSafeEqual(hash, expected) && user !== null
+}
+
+export async function startSession(username: string): Promise<string> {
+  const token = randomBytes(32).toString('hex')
+  const store = await getStore()
+  await store.createSession(
+    token,
+    normalizeUsername(username),
+    CONFIG.knowledgeBase.server.sessionTtlSeconds
+  )
+  return token
+}
+
+function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization')
+  const match = header?.match(/^Bearer\s+(\S+)$/i)
+  return match ? match[1] : null
+}
+
+export async function endSession(request: Request): Promise<void> {
+  const token = getBearerToken(request)
+  if (!token) return
+  const store = await getStore()
+  await store.deleteSession(token)
+}
+
+// The signed-in username for a request's bearer token, or null
+export async function authenticate(request: Request): Promise<string | null> {
+  const token = getBearerToken(request)
+  if (!token) return null
+  const store = await getStore()
+  return store.getSessionUser(token)
+}
+
+// The signed-in user for a knowledge base route, or the response to send instead
+export async function requireUser(
+  request: Request
+): Promise<{ username: string; response?: never } | { username?: never; response: NextResponse }> {
+  if (!CONFIG.knowledgeBase.server.enabled) {
+    return {
+      response: NextResponse.json(
+        { error: 'The server knowledge base is not enabled' },
+        { status: 404 }
+      ),
+    }
+  }
+
+  const username = await authenticate(request)
+  if (!username) {
+    return {
+      response: NextResponse.json(
+        { error: 'Sign in to use the knowledge base' },
+        { status: 401 }
+      ),
+    }
+  }
+  return { username }
+}
+
+export async function listReports(username: string): Promise<KnowledgeBaseReport[]> {
+  const store = await getStore()
+  const entries = await store.listEntries(username)
+  return entries
+    .flatMap(entry => (entry.report ? [entry.report] : []))
+    .sort((a, b) => b.timestamp - a.timestamp)
+}
+
+export async function getReport(username: string, id: string): Promise<KnowledgeBaseReport | null> {
+  const store = await getStore()
+  const entry = await store.getEntry(username, id)
+  return entry?.report ?? null
+}
+
+export function toEntry(report: KnowledgeBaseReport): KnowledgeBaseEntry {
+  return { id: report.id, updatedAt: report.updatedAt ?? report.timestamp, report }
+}
+
+// Last write wins: an incoming entry replaces the stored one only if it's newer
+export async function mergeEntries(username: string, incoming: KnowledgeBaseEntry[]): Promise<void> {
+  const store = await getStore()
+  await store.putNewerEntries(username, incoming)
+}
+
+// Apply a client's changes, then return what changed on the server since its
+// cursor. Entries the client just sent and the server kept aren't sent back, but
+// ones it turned down for a newer copy are, even if that copy is older than the cursor
+export async function syncEntries(
+  username: string,
+  incoming: KnowledgeBaseEntry[],
+  since: number
+): Promise<EntryChanges> {
+  const store = await getStore()
+  const newerIds = await store.putNewerEntries(username, incoming)
+
+  const sent = new Map(incoming.map(entry => [entry.id, entry.updatedAt]))
+  const { entries, cursor } = await store.getChangesSince(username, since)
+  const changed = entries.filter(entry => sent.get(entry.id) !== entry.updatedAt)
+
+  const returned = new Set(changed.map(entry => entry.id))
+  const newer = await Promise.all(
+    newerIds.filter(id => !returned.has(id)).map(id => store.getEntry(username, id))
+  )
+  return {
+    entries: [...changed, ...newer.filter((entry): entry is KnowledgeBaseEntry => entry !== null)],
+    cursor,
+  }
+}
@@ -0,0 +1,122 @@
+import { redis } from '@/lib/redis'
+import { type KnowledgeBaseEntry } from '@/types'
+import { type KnowledgeBaseStore, type StoredUser } from './types'
+
+const userKey = (username: string) => `knowledge-base:user:${username}`
+const sessionKey = (token: string) => `knowledge-base:session:${token}`
+// One hash per user, an entry per report id
+const entriesKey = (username: string) => `knowledge-base:entries:${username}`
+// Each entry's updatedAt, so the script below doesn't have to decode whole reports
+const updatedKey = (username: string) => `knowledge-base:updated:${username}`
+// Each entry's sequence number, and the last one handed out; these make sync cursors
+const sequenceKey = (username: string) => `knowledge-base:sequence:${username}`
+const cursorKey = (username: string) => `knowledge-base:cursor:${username}`
+
+// Upstash rejects large requests, so big syncs are written in several calls
+const MAX_WRITE_BYTES = 512 * 1024
+
+// ARGV holds (id, updatedAt, entry JSON) triples. Each entry is written only if it's
+// newer than the stored one; entries saved before updatedKey existed are decoded instead.
+// Returns the ids whose stored entry is newer
+const PUT_NEWER_ENTRIES = `
+local newer = {}
+for i = 1, #ARGV, 3 do
+  local stored = redis.call('HGET', KEYS[2], ARGV[i])
+  if not stored then
+    local current = redis.call('HGET', KEYS[1], ARGV[i])
+    if current then stored = cjson.decode(current).updatedAt end
+  end
+  if not stored or tonumber(ARGV[i + 1]) > tonumber(stored) then
+    redis.call('HSET', KEYS[1], ARGV[i], ARGV[i + 2])
+    redis.call('HSET', KEYS[2], ARGV[i], ARGV[i + 1])
+    redis.call('HSET', KEYS[3], ARGV[i], redis.call('INCR', KEYS[4]))
+  elseif tonumber(stored) > tonumber(ARGV[i + 1]) then
+    table.insert(newer, ARGV[i])
+  end
+end
+return newer
+`
+
+// Group serialized entries into writes of at most MAX_WRITE_BYTES, one entry minimum
+function toWriteChunks(entries: KnowledgeBaseEntry[]): string[][] {
+  const chunks: string[][] = []
+  let chunk: string[] = []
+  let bytes = 0
+
+  for (const entry of entries) {
+    const json = JSON.stringify(entry)
+    const size = Buffer.byteLength(json)
+    if (chunk.length > 0 && bytes + size > MAX_WRITE_BYTES) {
+      chunks.push(chunk)
+      chunk = []
+      bytes = 0
+    }
+    chunk.push(entry.id, String(entry.updatedAt), json)
+    bytes += size
+  }
+  if (chunk.length > 0) chunks.push(chunk)
+
+  return chunks
+}
+
+export const redisStore: KnowledgeBaseStore = {
+  async getUser(username) {
+    return redis.get<StoredUser>(userKey(username))
+  },
+
+  async createUser(user) {
+    const created = await redis.set(userKey(user.username), user, { nx: true })
+    return created === 'OK'
+  },
+
+  async createSession(token, username, ttlSeconds) {
+    await redis.set(sessionKey(token), username, { ex: ttlSeconds })
+  },
+
+  async getSessionUser(token) {
+    return redis.get<string>(sessionKey(token))
+  },
+
+  async deleteSession(token) {
+    await redis.del(sessionKey(token))
+  },
+
+  async listEntries(username) {
+    const entries = await redis.hgetall<Record<string, KnowledgeBaseEntry>>(entriesKey(username))
+    return entries ? Object.values(entries) : []
+  },
+
+  async getEntry(username, id) {
+    return redis.hget<KnowledgeBaseEntry>(entriesKey(username), id)
+  },
+
+  async putNewerEntries(username, entries) {
+    const newer: string[] = []
+    for (const args of toWriteChunks(entries)) {
+      const ids = await redis.eval<string[], string[]>(
+        PUT_NEWER_ENTRIES,
+        [entriesKey(username), updatedKey(username), sequenceKey(username), cursorKey(username)],
+        args
+      )
+      newer.push(...ids)
+    }
+    return newer
+  },
+
+  async getChangesSince(username, since) {
+    // Read the cursor first: anything written while listing is sent again next time
+    const cursor = Number(await redis.get<number>(cursorKey(username))) || 0
+    if (since <= 0) {
+      return { entries: await redisStore.listEntries(username), cursor }
+    }
+
+    const sequences = await redis.hgetall<Record<string, number>>(sequenceKey(username))
+    const ids = Object.entries(sequences ?? {})
+      .filter(([, sequence]) => Number(sequence) > since)
+      .map(([id]) => id)
+    if (ids.length === 0) return { entries: [], cursor }
+
+    const entries = await redis.hmget<Record<string, KnowledgeBaseEntry>>(entriesKey(username), ...ids)
+    return { entries: Object.values(entries ?? {}).filter(Boolean), cursor }
+  },
+}
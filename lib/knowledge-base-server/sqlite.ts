@@ -0,0 +1,146 @@
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import { CONFIG } from '@/lib/config'
+import { type KnowledgeBaseEntry } from '@/types'
+import { type KnowledgeBaseStore, type StoredUser } from './types'
+
+let database: Database.Database | null = null
+
+// Open the database file on first use, creating it and its tables if needed
+function getDatabase(): Database.Database {
+  if (!database) {
+    const file = path.resolve(process.cwd(), CONFIG.knowledgeBase.server.sqlitePath)
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    database = new Database(file)
+    database.pragma('journal_mode = WAL')
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        username TEXT PRIMARY KEY,
+        password_hash TEXT NOT NULL,
+        salt TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS sessions (
+        token TEXT PRIMARY KEY,
+        username TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS entries (
+        username TEXT NOT NULL,
+        id TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (username, id)
+      );
+    `)
+    // Databases created before sync cursors have no sequence column
+    const columns = database.prepare('PRAGMA table_info(entries)').all() as Array<{ name: string }>
+    if (!columns.some(column => column.name === 'seq')) {
+      database.exec('ALTER TABLE entries ADD COLUMN seq INTEGER NOT NULL DEFAULT 0')
+    }
+  }
+  return database
+}
+
+type UserRow = { username: string; password_hash: string; salt: string; created_at: number }
+
+export const sqliteStore: KnowledgeBaseStore = {
+  async getUser(username) {
+    const row = getDatabase()
+      .prepare('SELECT * FROM users WHERE username = ?')
+      .get(username) as UserRow | undefined
+    if (!row) return null
+    const user: StoredUser = {
+      username: row.username,
+      passwordHash: row.password_hash,
+      salt: row.salt,
+      createdAt: row.created_at,
+    }
+    return user
+  },
+
+  async createUser(user) {
+    const result = getDatabase()
+      .prepare(
+        'INSERT OR IGNORE INTO users (username, password_hash, salt, created_at) VALUES (?, ?, ?, ?)'
+      )
+      .run(user.username, user.passwordHash, user.salt, user.createdAt)
+    return result.changes === 1
+  },
+
+  async createSession(token, username, ttlSeconds) {
+    const db = getDatabase()
+    // Expired sessions are cleared out whenever a new one starts
+    db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(Date.now())
+    db.prepare('INSERT INTO sessions (token, username, expires_at) VALUES (?, ?, ?)').run(
+      token,
+      username,
+      Date.now() + ttlSeconds * 1000
+    )
+  },
+
+  async getSessionUser(token) {
+    const row = getDatabase()
+      .prepare('SELECT username FROM sessions WHERE token = ? AND expires_at > ?')
+      .get(token, Date.now()) as { username: string } | undefined
+    return row?.username ?? null
+  },
+
+  async deleteSession(token) {
+    getDatabase().prepare('DELETE FROM sessions WHERE token = ?').run(token)
+  },
+
+  async listEntries(username) {
+    const rows = getDatabase()
+      .prepare('SELECT data FROM entries WHERE username = ?')
+      .all(username) as Array<{ data: string }>
+    return rows.map(row => JSON.parse(row.data) as KnowledgeBaseEntry)
+  },
+
+  async getEntry(username, id) {
+    const row = getDatabase()
+      .prepare('SELECT data FROM entries WHERE username = ? AND id = ?')
+      .get(username, id) as { data: string } | undefined
+    return row ? (JSON.parse(row.data) as KnowledgeBaseEntry) : null
+  },
+
+  async putNewerEntries(username, entries) {
+    const db = getDatabase()
+    const upsert = db.prepare(
+      `INSERT INTO entries (username, id, updated_at, data, seq)
+       VALUES (?, ?, ?, ?, (SELECT COALESCE(MAX(seq), 0) + 1 FROM entries WHERE username = ?))
+       ON CONFLICT (username, id) DO UPDATE
+       SET updated_at = excluded.updated_at, data = excluded.data, seq = excluded.seq
+       WHERE excluded.updated_at > entries.updated_at`
+    )
+    const storedUpdatedAt = db.prepare('SELECT updated_at FROM entries WHERE username = ? AND id = ?')
+    return db.transaction(() => {
+      const newer: string[] = []
+      for (const entry of entries) {
+        const { changes } = upsert.run(username, entry.id, entry.updatedAt, JSON.stringify(entry), username)
+        if (changes > 0) continue
+        const stored = storedUpdatedAt.get(username, entry.id) as { updated_at: number } | undefined
+        if (stored && stored.updated_at > entry.updatedAt) newer.push(entry.id)
+      }
+      return newer
+    })()
+  },
+
+  async getChangesSince(username, since) {
+    const db = getDatabase()
+    return db.transaction(() => {
+      const { cursor } = db
+        .prepare('SELECT COALESCE(MAX(seq), 0) AS cursor FROM entries WHERE username = ?')
+        .get(username) as { cursor: number }
+      const rows = db
+        .prepare('SELECT data FROM entries WHERE username = ? AND seq > ?')
+        // Entries written before sequence numbers existed have seq 0
+        .all(username, since > 0 ? since : -1) as Array<{ data: string }>
+      return {
+        entries: rows.map(row => JSON.parse(row.data) as KnowledgeBaseEntry),
+        cursor,
+      }
+    })()
+  },
+}
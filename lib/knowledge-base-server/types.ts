@@ -0,0 +1,37 @@
+import { type KnowledgeBaseEntry } from '@/types'
+
+// Entries changed after a sync cursor, and the cursor to send next time
+export type EntryChanges = {
+  entries: KnowledgeBaseEntry[]
+  cursor: number
+}
+
+export type StoredUser = {
+  username: string
+  // scrypt hash and salt, both hex
+  passwordHash: string
+  salt: string
+  createdAt: number
+}
+
+// Persistence for the server knowledge base: accounts, sessions and each user's
+// entries. Entries are replaced whole, and only by newer ones
+export interface KnowledgeBaseStore {
+  getUser(username: string): Promise<StoredUser | null>
+  // Resolves to false when the username is taken
+  createUser(user: StoredUser): Promise<boolean>
+
+  createSession(token: string, username: string, ttlSeconds: number): Promise<void>
+  getSessionUser(token: string): Promise<string | null>
+  deleteSession(token: string): Promise<void>
+
+  listEntries(username: string): Promise<KnowledgeBaseEntry[]>
+  getEntry(username: string, id: string): Promise<KnowledgeBaseEntry | null>
+  // Store each entry unless the stored one is at least as new. The check and the
+  // write happen atomically per entry, so concurrent syncs can't undo each other.
+  // Every write takes the user's next sequence number. Resolves to the ids whose
+  // stored entry is strictly newer than the one given
+  putNewerEntries(username: string, entries: KnowledgeBaseEntry[]): Promise<string[]>
+  // Entries written after the given sequence number; 0 returns all of them
+  getChangesSince(username: string, since: number): Promise<EntryChanges>
+}
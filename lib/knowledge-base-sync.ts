@@ -0,0 +1,167 @@
+import {
+  applySyncedEntries,
+  countKnowledgeBaseReports,
+  forgetLocalKnowledgeBase,
+  getLocalEntries,
+} from '@/lib/knowledge-base'
+import { type KnowledgeBaseEntry } from '@/types'
+
+// Client side of the server knowledge base: the signed-in session and syncing the
+// browser's copy with the server, last write wins
+const SESSION_KEY = 'knowledge_base_session'
+// The account this browser's copy was last synced with, kept after signing out
+const OWNER_KEY = 'knowledge_base_owner'
+
+export type KnowledgeBaseSession = {
+  token: string
+  username: string
+  // Local time the last successful sync started. Local changes are stamped with the
+  // local clock, so anything changed before then has already been uploaded
+  syncedUntil?: number
+  // Server sequence number of the last change downloaded
+  cursor?: number
+}
+
+let syncInFlight: Promise<void> | null = null
+let syncAgain = false
+
+export function getKnowledgeBaseSession(): KnowledgeBaseSession | null {
+  try {
+    const sessionJson = localStorage.getItem(SESSION_KEY)
+    return sessionJson ? (JSON.parse(sessionJson) as KnowledgeBaseSession) : null
+  } catch {
+    return null
+  }
+}
+
+function saveSession(session: KnowledgeBaseSession) {
+  // Unless the user signed out or in as someone else in the meantime
+  if (getKnowledgeBaseSession()?.token === session.token) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+  }
+}
+
+// Number of local reports that would be uploaded into an account they don't belong
+// to; the user has to decide with adoptLocalKnowledgeBase before syncing
+export async function countUnownedReports(session: KnowledgeBaseSession): Promise<number> {
+  const owner = localStorage.getItem(OWNER_KEY)
+  // Sessions that synced before the owner was recorded own what's here
+  if (owner === session.username || (owner === null && session.syncedUntil)) return 0
+
+  const count = await countKnowledgeBaseReports()
+  if (count === 0) {
+    // Leftover deletions and evictions belong to the previous account
+    await forgetLocalKnowledgeBase()
+    localStorage.setItem(OWNER_KEY, session.username)
+  }
+  return count
+}
+
+// Hand this browser's copy over to the session's account, either merging the local
+// reports into it or replacing them with the account's
+export async function adoptLocalKnowledgeBase(
+  session: KnowledgeBaseSession,
+  merge: boolean
+): Promise<void> {
+  if (!merge) await forgetLocalKnowledgeBase()
+  // The next sync starts over, uploading and downloading everything
+  session.syncedUntil = undefined
+  session.cursor = undefined
+  saveSession(session)
+  localStorage.setItem(OWNER_KEY, session.username)
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => null)
+  return data?.error || fallback
+}
+
+// Sign in, or create an account first; throws with a user-facing message
+export async function signIn(
+  username: string,
+  password: string,
+  register = false
+): Promise<KnowledgeBaseSession> {
+  const response = await fetch('/api/knowledge-base/session', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ username, password, register }),
+  })
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to sign in'))
+  }
+
+  const session = (await response.json()) as KnowledgeBaseSession
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+  return session
+}
+
+export async function signOut(): Promise<void> {
+  const session = getKnowledgeBaseSession()
+  localStorage.removeItem(SESSION_KEY)
+  if (!session) return
+
+  try {
+    await fetch('/api/knowledge-base/session', {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${session.token}` },
+    })
+  } catch (error) {
+    console.warn('Failed to end knowledge base session on the server:', error)
+  }
+}
+
+async function runSync(session: KnowledgeBaseSession): Promise<void> {
+  const startedAt = Date.now()
+  // Only what changed since the last sync is uploaded; the first sync sends everything
+  const localEntries = await getLocalEntries(session.syncedUntil)
+  const response = await fetch('/api/knowledge-base/sync', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.token}`,
+    },
+    body: JSON.stringify({ entries: localEntries, since: session.cursor ?? 0 }),
+  })
+
+  if (response.status === 401) {
+    localStorage.removeItem(SESSION_KEY)
+    throw new Error('Your session has expired; sign in again to sync')
+  }
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to sync knowledge base'))
+  }
+
+  // Only server changes after the cursor come back; the first sync gets everything
+  const { entries, cursor } = (await response.json()) as { entries: KnowledgeBaseEntry[]; cursor: number }
+  await applySyncedEntries(entries)
+
+  session.syncedUntil = startedAt
+  session.cursor = cursor
+  saveSession(session)
+  localStorage.setItem(OWNER_KEY, session.username)
+}
+
+// Push local reports and deletions to the server and pull what changed there back.
+// A call made while a sync is running runs one more round once it finishes, so
+// changes made in the meantime aren't left behind
+export function syncKnowledgeBase(session: KnowledgeBaseSession): Promise<void> {
+  if (syncInFlight) {
+    syncAgain = true
+    return syncInFlight
+  }
+
+  syncInFlight = (async () => {
+    try {
+      do {
+        syncAgain = false
+        await runSync(session)
+      } while (syncAgain)
+    } finally {
+      syncInFlight = null
+    }
+  })()
+  return syncInFlight
+}
@@ -1,45 +1,217 @@
-import { type KnowledgeBaseReport } from '@/types'
+import { CONFIG } from '@/lib/config'
+import { type KnowledgeBaseEntry, type KnowledgeBaseReport } from '@/types'
 
-const KNOWLEDGE_BASE_KEY = 'knowledge_base'
+// Reports are stored one record per report in IndexedDB, newest first by timestamp
+const DATABASE_NAME = 'intelexia'
+const DATABASE_VERSION = 4
+const REPORTS_STORE = 'reports'
+// Deletions not yet synced to the server knowledge base: { id, deletedAt }
+const TOMBSTONES_STORE = 'tombstones'
+// Reports or source texts dropped only to free space in this browser: { id, updatedAt }.
+// The server keeps its copy, and syncing doesn't bring that version back here
+const EVICTIONS_STORE = 'evictions'
+// Where the whole knowledge base used to live as one JSON array; migrated on first open
+const LEGACY_STORAGE_KEY = 'knowledge_base'
+const CHANGE_EVENT = 'knowledge_base_change'
 
-// Helper to notify about knowledge base changes
+export type KnowledgeBaseUsage = {
+  reports: number
+  // Approximate size of the saved reports themselves
+  reportBytes: number
+  // Origin-wide figures from the browser, when it reports them
+  usage: number | null
+  quota: number | null
+}
+
+type Tombstone = {
+  id: string
+  deletedAt: number
+}
+
+type Eviction = {
+  id: string
+  updatedAt: number
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null
+let changeChannel: BroadcastChannel | null = null
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Move reports saved by older versions out of localStorage. The old key is only
+// removed once every report has been written
+async function migrateLegacyReports(database: IDBDatabase): Promise<void> {
+  const reportsJson = localStorage.getItem(LEGACY_STORAGE_KEY)
+  if (!reportsJson) return
+
+  try {
+    const reports = JSON.parse(reportsJson) as KnowledgeBaseReport[]
+    const transaction = database.transaction(REPORTS_STORE, 'readwrite')
+    const store = transaction.objectStore(REPORTS_STORE)
+    for (const report of reports) {
+      store.put(report)
+    }
+    await transactionDone(transaction)
+    localStorage.removeItem(LEGACY_STORAGE_KEY)
+    console.log(`Migrated ${reports.length} knowledge base reports to IndexedDB`)
+  } catch (error) {
+    console.error('Failed to migrate knowledge base from localStorage:', error)
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+      request.onupgradeneeded = () => {
+        const database = request.result
+        if (!database.objectStoreNames.contains(REPORTS_STORE)) {
+          const store = database.createObjectStore(REPORTS_STORE, { keyPath: 'id' })
+          store.createIndex('timestamp', 'timestamp')
+        }
+        // Databases before version 4 have an unused query index; search matches words
+        // anywhere in the query, title and summary, which an index can't look up
+        const reports = request.transaction!.objectStore(REPORTS_STORE)
+        if (reports.indexNames.contains('query')) {
+          reports.deleteIndex('query')
+        }
+        if (!database.objectStoreNames.contains(TOMBSTONES_STORE)) {
+          database.createObjectStore(TOMBSTONES_STORE, { keyPath: 'id' })
+        }
+        if (!database.objectStoreNames.contains(EVICTIONS_STORE)) {
+          database.createObjectStore(EVICTIONS_STORE, { keyPath: 'id' })
+        }
+      }
+      request.onsuccess = () => {
+        // Let a newer version of the app in another tab upgrade the database
+        request.result.onversionchange = () => {
+          request.result.close()
+          databasePromise = null
+        }
+        resolve(request.result)
+      }
+      request.onerror = () => reject(request.error)
+    }).then(async database => {
+      await migrateLegacyReports(database)
+      return database
+    })
+    // Let the next call try again instead of caching the failure
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+async function reportsStore(mode: IDBTransactionMode) {
+  const database = await openDatabase()
+  const transaction = database.transaction([REPORTS_STORE, TOMBSTONES_STORE, EVICTIONS_STORE], mode)
+  return {
+    transaction,
+    store: transaction.objectStore(REPORTS_STORE),
+    tombstones: transaction.objectStore(TOMBSTONES_STORE),
+    evictions: transaction.objectStore(EVICTIONS_STORE),
+  }
+}
+
+function getUpdatedAt(report: KnowledgeBaseReport): number {
+  return report.updatedAt ?? report.timestamp
+}
+
+// Remember that a report's current version was cut down or dropped only locally
+function recordEviction(evictions: IDBObjectStore, report: KnowledgeBaseReport) {
+  if (CONFIG.knowledgeBase.server.enabled) {
+    evictions.put({ id: report.id, updatedAt: getUpdatedAt(report) })
+  }
+}
+
+// Delete reports, remembering the deletions when they need to reach the server
+function deleteReports(
+  store: IDBObjectStore,
+  tombstones: IDBObjectStore,
+  reportIds: IDBValidKey[]
+) {
+  const deletedAt = Date.now()
+  for (const id of reportIds) {
+    store.delete(id)
+    if (CONFIG.knowledgeBase.server.enabled) {
+      tombstones.put({ id, deletedAt })
+    }
+  }
+}
+
+// Notify this window and other tabs about knowledge base changes
 const notifyKnowledgeBaseChange = () => {
   if (typeof window !== 'undefined') {
-    window.dispatchEvent(new Event('knowledge_base_change'))
+    window.dispatchEvent(new Event(CHANGE_EVENT))
+    getChangeChannel()?.postMessage(CHANGE_EVENT)
+  }
+}
+
+function getChangeChannel(): BroadcastChannel | null {
+  if (!changeChannel && typeof BroadcastChannel !== 'undefined') {
+    changeChannel = new BroadcastChannel(CHANGE_EVENT)
+  }
+  return changeChannel
+}
+
+// Call onChange whenever the knowledge base changes in this or another tab;
+// returns an unsubscribe function
+export function subscribeToKnowledgeBase(onChange: () => void): () => void {
+  const channel = getChangeChannel()
+  window.addEventListener(CHANGE_EVENT, onChange)
+  channel?.addEventListener('message', onChange)
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange)
+    channel?.removeEventListener('message', onChange)
   }
 }
 
-export function addToKnowledgeBase(report: KnowledgeBaseReport): boolean {
+export async function addToKnowledgeBase(report: KnowledgeBaseReport): Promise<boolean> {
   try {
-    const reports = getKnowledgeBaseReports()
-    reports.push(report)
-    localStorage.setItem(KNOWLEDGE_BASE_KEY, JSON.stringify(reports))
+    const { transaction, store } = await reportsStore('readwrite')
+    store.put(report)
+    await transactionDone(transaction)
     notifyKnowledgeBaseChange()
     return true
   } catch (error) {
+    // QuotaExceededError lands here when storage is full
     console.error('Failed to add report to knowledge base:', error)
     return false
   }
 }
 
-export function getKnowledgeBaseReports(): KnowledgeBaseReport[] {
+export async function getKnowledgeBaseReports(): Promise<KnowledgeBaseReport[]> {
   try {
-    const reportsJson = localStorage.getItem(KNOWLEDGE_BASE_KEY)
-    if (!reportsJson) return []
-    
-    const reports = JSON.parse(reportsJson) as KnowledgeBaseReport[]
-    return reports.sort((a, b) => b.timestamp - a.timestamp)
+    const { store } = await reportsStore('readonly')
+    const reports = await requestToPromise(
+      store.index('timestamp').getAll() as IDBRequest<KnowledgeBaseReport[]>
+    )
+    return reports.reverse()
   } catch (error) {
     console.error('Failed to get knowledge base reports:', error)
     return []
   }
 }
 
-export function deleteFromKnowledgeBase(reportId: string): boolean {
+export async function deleteFromKnowledgeBase(reportIds: string | string[]): Promise<boolean> {
   try {
-    const reports = getKnowledgeBaseReports()
-    const filteredReports = reports.filter(report => report.id !== reportId)
-    localStorage.setItem(KNOWLEDGE_BASE_KEY, JSON.stringify(filteredReports))
+    const { transaction, store, tombstones } = await reportsStore('readwrite')
+    deleteReports(store, tombstones, Array.isArray(reportIds) ? reportIds : [reportIds])
+    await transactionDone(transaction)
     notifyKnowledgeBaseChange()
     return true
   } catch (error) {
@@ -48,18 +220,152 @@ export function deleteFromKnowledgeBase(reportId: string): boolean {
   }
 }
 
-export function searchKnowledgeBase(query: string): KnowledgeBaseReport[] {
+export async function clearKnowledgeBase(): Promise<boolean> {
   try {
-    const reports = getKnowledgeBaseReports()
-    
-    // Simple search implementation - can be enhanced with better search logic
-    const searchTerms = query.toLowerCase().split(' ')
-    return reports.filter(report => {
-      const searchText = `${report.query} ${report.report.title} ${report.report.summary}`.toLowerCase()
-      return searchTerms.every(term => searchText.includes(term))
-    })
+    const { transaction, store, tombstones, evictions } = await reportsStore('readwrite')
+    // Reports evicted from this browser are still on the server, and are cleared too
+    const [reportIds, evictedIds] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(evictions.getAllKeys()),
+    ])
+    deleteReports(store, tombstones, [...reportIds, ...evictedIds])
+    evictions.clear()
+    await transactionDone(transaction)
+    notifyKnowledgeBaseChange()
+    return true
   } catch (error) {
-    console.error('Failed to search knowledge base:', error)
-    return []
+    console.error('Failed to clear knowledge base:', error)
+    return false
+  }
+}
+
+// Delete the oldest reports first, to free space. Only this browser's copies go;
+// the server knowledge base keeps them
+export async function evictOldestReports(count: number): Promise<boolean> {
+  try {
+    const { transaction, store, evictions } = await reportsStore('readwrite')
+    const reports = await requestToPromise(
+      store.index('timestamp').getAll(null, count) as IDBRequest<KnowledgeBaseReport[]>
+    )
+    for (const report of reports) {
+      store.delete(report.id)
+      recordEviction(evictions, report)
+    }
+    await transactionDone(transaction)
+    notifyKnowledgeBaseChange()
+    return true
+  } catch (error) {
+    console.error('Failed to evict knowledge base reports:', error)
+    return false
   }
-} 
\ No newline at end of file
+}
+
+// Drop the saved source texts, usually most of a report's size. The reports stay,
+// but follow-up questions can then only be answered from the report itself. The
+// reports keep their updatedAt, so the server's full copies aren't overwritten
+export async function removeSourceTexts(): Promise<boolean> {
+  try {
+    const { transaction, store, evictions } = await reportsStore('readwrite')
+    const reports = await requestToPromise(store.getAll() as IDBRequest<KnowledgeBaseReport[]>)
+    for (const report of reports) {
+      if (report.articles) {
+        store.put({ ...report, articles: undefined })
+        recordEviction(evictions, report)
+      }
+    }
+    await transactionDone(transaction)
+    notifyKnowledgeBaseChange()
+    return true
+  } catch (error) {
+    console.error('Failed to remove source texts from knowledge base:', error)
+    return false
+  }
+}
+
+export async function countKnowledgeBaseReports(): Promise<number> {
+  const { store } = await reportsStore('readonly')
+  return requestToPromise(store.count())
+}
+
+// Drop this browser's copy of the knowledge base without recording deletions, so
+// nothing is deleted from the server when it's handed over to another account
+export async function forgetLocalKnowledgeBase(): Promise<void> {
+  const { transaction, store, tombstones, evictions } = await reportsStore('readwrite')
+  store.clear()
+  tombstones.clear()
+  evictions.clear()
+  await transactionDone(transaction)
+  notifyKnowledgeBaseChange()
+}
+
+// Local reports and unsynced deletions changed at or after since (all of them when
+// it's omitted), in the form the server syncs
+export async function getLocalEntries(since = 0): Promise<KnowledgeBaseEntry[]> {
+  const { store, tombstones } = await reportsStore('readonly')
+  const reports = await requestToPromise(store.getAll() as IDBRequest<KnowledgeBaseReport[]>)
+  const deletions = await requestToPromise(tombstones.getAll() as IDBRequest<Tombstone[]>)
+  const entries: KnowledgeBaseEntry[] = [
+    ...reports.map(report => ({ id: report.id, updatedAt: getUpdatedAt(report), report })),
+    ...deletions.map(({ id, deletedAt }) => ({ id, updatedAt: deletedAt, report: null })),
+  ]
+  return entries.filter(entry => entry.updatedAt >= since)
+}
+
+// Apply the server's entries wherever they're at least as new as the local copy.
+// Local changes made while the sync was in flight are newer and stay, and so do
+// evictions until the report changes on another device
+export async function applySyncedEntries(entries: KnowledgeBaseEntry[]): Promise<void> {
+  const { transaction, store, tombstones, evictions } = await reportsStore('readwrite')
+
+  for (const entry of entries) {
+    const [report, tombstone, eviction] = await Promise.all([
+      requestToPromise(store.get(entry.id) as IDBRequest<KnowledgeBaseReport | undefined>),
+      requestToPromise(tombstones.get(entry.id) as IDBRequest<Tombstone | undefined>),
+      requestToPromise(evictions.get(entry.id) as IDBRequest<Eviction | undefined>),
+    ])
+    const localUpdatedAt = Math.max(report ? getUpdatedAt(report) : 0, tombstone?.deletedAt ?? 0)
+    if (entry.updatedAt < localUpdatedAt) continue
+    if (eviction && entry.updatedAt <= eviction.updatedAt) continue
+
+    if (entry.report) {
+      store.put(entry.report)
+    } else {
+      store.delete(entry.id)
+    }
+    tombstones.delete(entry.id)
+    evictions.delete(entry.id)
+  }
+
+  await transactionDone(transaction)
+  notifyKnowledgeBaseChange()
+}
+
+// Rough serialized size of a report, for showing what takes up space
+export function estimateReportBytes(report: KnowledgeBaseReport): number {
+  return new Blob([JSON.stringify(report)]).size
+}
+
+export async function getKnowledgeBaseUsage(reports: KnowledgeBaseReport[]): Promise<KnowledgeBaseUsage> {
+  const reportBytes = reports.reduce((total, report) => total + estimateReportBytes(report), 0)
+  let usage: number | null = null
+  let quota: number | null = null
+
+  try {
+    if (navigator.storage?.estimate) {
+      const estimate = await navigator.storage.estimate()
+      usage = estimate.usage ?? null
+      quota = estimate.quota ?? null
+    }
+  } catch (error) {
+    console.error('Failed to estimate storage usage:', error)
+  }
+
+  return { reports: reports.length, reportBytes, usage, quota }
+}
+
+export function reportMatchesQuery(report: KnowledgeBaseReport, query: string): boolean {
+  // Simple search implementation - can be enhanced with better search logic
+  const searchTerms = query.toLowerCase().split(' ')
+  const searchText = `${report.query} ${report.report.title} ${report.report.summary}`.toLowerCase()
+  return searchTerms.every(term => searchText.includes(term))
+}
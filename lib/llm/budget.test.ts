@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { getContextWindow, getSummaryMaxTokens } from './budget'
+
+describe('getSummaryMaxTokens', () => {
+  it('clamps large budgets to the output limit', () => {
+    // DeepSeek's 64k context gives per-source shares far above its 8192 output cap
+    expect(getContextWindow('deepseek__chat')).toBe(64_000)
+    expect(getSummaryMaxTokens('deepseek__chat', 45_000)).toBe(8_192)
+    expect(getSummaryMaxTokens('google__gemini-flash', 500_000)).toBe(8_192)
+  })
+
+  it('uses the output limit a model sets', () => {
+    // Local models share an 8192 window between prompt and response
+    expect(getSummaryMaxTokens('local__llama3.1', 5_000)).toBe(2_048)
+  })
+
+  it('keeps budgets that already fit', () => {
+    expect(getSummaryMaxTokens('deepseek__chat', 3_000)).toBe(3_000)
+  })
+
+  it('never asks for fewer than 256 tokens', () => {
+    expect(getSummaryMaxTokens('deepseek__chat', 40)).toBe(256)
+  })
+})
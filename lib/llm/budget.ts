@@ -0,0 +1,216 @@
+import pLimit from 'p-limit'
+import { CONFIG } from '@/lib/config'
+import { type Article } from '@/types'
+import { generate, getOutputLimit, parsePlatformModel, type Platform } from './index'
+
+const DEFAULT_CONTEXT_WINDOW = 32_000
+// Summaries shorter than this aren't worth a model call
+const MIN_SUMMARY_TOKENS = 256
+// Never squeeze all sources into less than this, even with a huge prompt template
+const MIN_SOURCE_BUDGET = 1_000
+
+type Chunk = {
+  articleIndex: number
+  position: number
+  text: string
+  score: number
+}
+
+// Rough count for mixed English/markdown; good enough to stay under the limit
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+export function getContextWindow(platformModel: string): number {
+  const { platform, model } = parsePlatformModel(platformModel)
+  const models = CONFIG.platforms[platform as Platform]?.models as
+    | Record<string, { contextWindow?: number }>
+    | undefined
+  return models?.[model]?.contextWindow ?? DEFAULT_CONTEXT_WINDOW
+}
+
+// Response size for a source summary: its share of the budget, within what the model can return
+export function getSummaryMaxTokens(platformModel: string, budget: number): number {
+  return Math.max(Math.min(budget, getOutputLimit(platformModel)), MIN_SUMMARY_TOKENS)
+}
+
+// Tokens left for source content once the template and the response are accounted for
+export function getSourceBudget(platformModel: string, promptTemplate: string): number {
+  const available = Math.floor(getContextWindow(platformModel) * (1 - CONFIG.contextBudget.reservedRatio))
+  return Math.max(available - estimateTokens(promptTemplate), MIN_SOURCE_BUDGET)
+}
+
+// Split on paragraph boundaries into pieces of roughly chunkTokens
+function chunkText(text: string): string[] {
+  const maxChars = CONFIG.contextBudget.chunkTokens * 4
+  const chunks: string[] = []
+  let current = ''
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length > maxChars) {
+      chunks.push(current)
+      current = ''
+    }
+    // A single oversized paragraph is hard-split
+    for (let start = 0; start < paragraph.length; start += maxChars) {
+      const piece = paragraph.slice(start, start + maxChars)
+      if (piece.length === maxChars) {
+        if (current) chunks.push(current)
+        chunks.push(piece)
+        current = ''
+      } else {
+        current = current ? `${current}\n\n${piece}` : piece
+      }
+    }
+  }
+  if (current.trim()) chunks.push(current)
+
+  return chunks
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]{3,}/g) || []
+}
+
+// BM25 relevance of every chunk to the query
+function scoreChunks(chunks: Chunk[], query: string): void {
+  const queryTerms = Array.from(new Set(tokenize(query)))
+  const chunkTerms = chunks.map(chunk => tokenize(chunk.text))
+  const averageLength = chunkTerms.reduce((sum, terms) => sum + terms.length, 0) / (chunks.length || 1)
+
+  const documentFrequency = new Map<string, number>()
+  for (const terms of chunkTerms) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+    }
+  }
+
+  const k1 = 1.2
+  const b = 0.75
+  chunks.forEach((chunk, i) => {
+    const terms = chunkTerms[i]
+    const frequencies = new Map<string, number>()
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1)
+    }
+
+    chunk.score = queryTerms.reduce((score, term) => {
+      const tf = frequencies.get(term) || 0
+      if (tf === 0) return score
+      const df = documentFrequency.get(term) || 0
+      const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5))
+      return score + idf * ((tf * (k1 + 1)) / (tf + k1 * (1 - b + (b * terms.length) / (averageLength || 1))))
+    }, 0)
+  })
+}
+
+// Share the budget out so short sources keep their full text and long ones split the rest
+function allocateBudgets(sizes: number[], budget: number): number[] {
+  const budgets = new Array<number>(sizes.length).fill(0)
+  const order = sizes.map((size, index) => ({ size, index })).sort((a, b) => a.size - b.size)
+  let remaining = budget
+
+  order.forEach(({ size, index }, position) => {
+    const fairShare = Math.floor(remaining / (order.length - position))
+    budgets[index] = Math.min(size, fairShare)
+    remaining -= budgets[index]
+  })
+  return budgets
+}
+
+// Keep the most relevant chunks that fit, in their original order
+function selectChunks(chunks: Chunk[], budget: number): string {
+  const selected: Chunk[] = []
+  let used = 0
+  for (const chunk of [...chunks].sort((a, b) => b.score - a.score)) {
+    const tokens = estimateTokens(chunk.text)
+    if (used + tokens > budget) continue
+    selected.push(chunk)
+    used += tokens
+  }
+  // Budget smaller than any chunk: cut the best one down
+  if (selected.length === 0 && chunks.length > 0) {
+    const best = chunks.reduce((a, b) => (b.score > a.score ? b : a))
+    return best.text.slice(0, budget * 4)
+  }
+  return selected
+    .sort((a, b) => a.position - b.position)
+    .map(chunk => chunk.text)
+    .join('\n\n')
+}
+
+// Map step: condense one source's most relevant excerpts into a summary that fits its share
+async function summarizeSource(
+  platformModel: string,
+  article: Article,
+  excerpts: string,
+  query: string,
+  budget: number
+): Promise<string> {
+  const maxWords = Math.max(Math.floor(budget * 0.75), 50)
+  const prompt = `You are condensing a source so it can be used in a research report that addresses this request: "${query}"
+
+Extract everything in the excerpts below that is relevant to the request. Preserve figures, dates, names, definitions and direct quotes exactly. Do not add information that is not in the excerpts. Write at most ${maxWords} words of plain markdown.
+
+Title: ${article.title}
+URL: ${article.url}
+Excerpts:
+${excerpts}`
+
+  return generate(platformModel, {
+    prompt,
+    maxTokens: getSummaryMaxTokens(platformModel, budget),
+  })
+}
+
+// Fit source content into the model's context. Sources are left untouched when they
+// fit. Otherwise long ones are chunked, ranked against the query and map-summarized
+// down to their share of the budget, leaving the final synthesis as the reduce step
+export async function fitArticlesToBudget(
+  platformModel: string,
+  articles: Article[],
+  { query, budget }: { query: string; budget: number }
+): Promise<Article[]> {
+  const sizes = articles.map(article => estimateTokens(article.content))
+  const total = sizes.reduce((sum, size) => sum + size, 0)
+  if (total <= budget) return articles
+
+  console.log(`Sources need ~${total} tokens but only ${budget} fit; condensing`)
+
+  const chunks: Chunk[] = articles.flatMap((article, articleIndex) =>
+    chunkText(article.content).map((text, position) => ({
+      articleIndex,
+      position,
+      text,
+      score: 0,
+    }))
+  )
+  scoreChunks(chunks, query)
+
+  const budgets = allocateBudgets(sizes, budget)
+  // Input for one map call is capped by the context too
+  const mapInputBudget = getSourceBudget(platformModel, query)
+  const limit = pLimit(CONFIG.contextBudget.mapConcurrency)
+
+  return Promise.all(
+    articles.map((article, index) =>
+      limit(async () => {
+        if (sizes[index] <= budgets[index]) return article
+
+        const articleChunks = chunks.filter(chunk => chunk.articleIndex === index)
+        try {
+          const excerpts = selectChunks(articleChunks, mapInputBudget)
+          const summary = await summarizeSource(platformModel, article, excerpts, query, budgets[index])
+          // Summaries can overshoot the requested length
+          if (estimateTokens(summary) <= budgets[index] * 1.2) {
+            return { ...article, content: summary }
+          }
+          console.warn(`Summary of ${article.url} overshot its budget, using excerpts`)
+        } catch (error) {
+          console.error(`Failed to summarize ${article.url}, using excerpts:`, error)
+        }
+        return { ...article, content: selectChunks(articleChunks, budgets[index]) }
+      })
+    )
+  )
+}
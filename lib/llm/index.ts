@@ -0,0 +1,107 @@
+import { CONFIG } from '@/lib/config'
+import { type GenerateOptions, type LLMProvider } from './types'
+import { googleProvider } from './providers/google'
+import { openaiProvider } from './providers/openai'
+import { anthropicProvider } from './providers/anthropic'
+import { deepseekProvider } from './providers/deepseek'
+import { localProvider } from './providers/local'
+
+export type { GenerateOptions, LLMProvider, ResponseFormat } from './types'
+
+export type Platform = keyof typeof CONFIG.platforms
+
+// One provider per platform in CONFIG.platforms
+const providers: Record<Platform, LLMProvider> = {
+  google: googleProvider,
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  deepseek: deepseekProvider,
+  local: localProvider,
+}
+
+export const DEFAULT_PLATFORM_MODEL = 'google__gemini-flash-thinking'
+
+// Matches the providers' default max tokens; DeepSeek rejects anything above it
+const DEFAULT_OUTPUT_LIMIT = 8_192
+
+// Split a "platform__model" identifier as sent by the UI
+export function parsePlatformModel(platformModel: string) {
+  const [platform, model] = platformModel.split('__')
+  return { platform, model }
+}
+
+// Returns a user-facing error if the platform/model can't be used, otherwise null
+export function getPlatformModelError(platformModel: string): string | null {
+  const { platform, model } = parsePlatformModel(platformModel)
+
+  const platformConfig = CONFIG.platforms[platform as Platform]
+  if (!platformConfig?.enabled) {
+    return `${platform} platform is not enabled`
+  }
+
+  const modelConfig = (platformConfig.models as Record<string, { enabled: boolean }>)[model]
+  if (!modelConfig) {
+    return `${model} model does not exist`
+  }
+  if (!modelConfig.enabled) {
+    return `${model} model is disabled`
+  }
+
+  return null
+}
+
+export function getOutputLimit(platformModel: string): number {
+  const { platform, model } = parsePlatformModel(platformModel)
+  const models = CONFIG.platforms[platform as Platform]?.models as
+    | Record<string, { maxOutputTokens?: number }>
+    | undefined
+  return models?.[model]?.maxOutputTokens ?? DEFAULT_OUTPUT_LIMIT
+}
+
+// Never ask a model for more than it can return; small local models share one
+// window between the prompt and the response
+function withOutputLimit(platformModel: string, options: GenerateOptions): GenerateOptions {
+  const limit = getOutputLimit(platformModel)
+  return { ...options, maxTokens: Math.min(options.maxTokens ?? limit, limit) }
+}
+
+// Generate a completion with whichever platform/model the user selected
+export async function generate(
+  platformModel: string,
+  options: GenerateOptions
+): Promise<string> {
+  const configError = getPlatformModelError(platformModel)
+  if (configError) {
+    throw new Error(configError)
+  }
+
+  const { platform, model } = parsePlatformModel(platformModel)
+  const provider = providers[platform as Platform]
+  const response = await provider.generate(model, withOutputLimit(platformModel, options))
+  if (!response) {
+    throw new Error('No response from model')
+  }
+  return response
+}
+
+// Stream a completion with whichever platform/model the user selected
+export async function* generateStream(
+  platformModel: string,
+  options: GenerateOptions
+): AsyncGenerator<string> {
+  const configError = getPlatformModelError(platformModel)
+  if (configError) {
+    throw new Error(configError)
+  }
+
+  const { platform, model } = parsePlatformModel(platformModel)
+  const provider = providers[platform as Platform]
+  let received = false
+  for await (const text of provider.stream(model, withOutputLimit(platformModel, options))) {
+    received = true
+    yield text
+  }
+  if (!received) {
+    throw new Error('No response from model')
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { createJsonStreamParser, type JsonPath } from './json-stream'
+
+function parse(chunks: string[]) {
+  const values: Array<[JsonPath, unknown]> = []
+  const parser = createJsonStreamParser((path, value) => values.push([path, value]))
+  for (const chunk of chunks) parser.write(chunk)
+  return values
+}
+
+// The completed root object, or undefined while it's still open
+const root = (values: Array<[JsonPath, unknown]>) => values.find(([path]) => path.length === 0)?.[1]
+
+// Every way of cutting the text in two, plus one character at a time
+function splits(text: string): string[][] {
+  const cuts = Array.from({ length: text.length + 1 }, (_, i) => [text.slice(0, i), text.slice(i)])
+  return [...cuts, Array.from(text)]
+}
+
+describe('createJsonStreamParser', () => {
+  it.each([
+    ['escapes', '{"text":"a \\"quoted\\" word\\\\ and\\nline\\ttab\\/"}'],
+    ['unicode escapes', '{"text":"caf\\u00e9 \\u2014 \\ud83d\\ude00"}'],
+    ['literals closing containers', '{"a":[1,-2.5,1e3,true],"b":{"c":false},"d":null}'],
+    ['nested arrays and objects', '{"sections":[{"title":"One","tags":["x","y"]},{"title":"Two","tags":[]}]}'],
+    ['whitespace between tokens', '{\n  "a" : [ 1 , 2 ] ,\n  "b" : "c"\n}'],
+  ])('parses %s the same however the input is chunked', (_, json) => {
+    const expected = JSON.parse(json)
+    for (const chunks of splits(json)) {
+      expect(root(parse(chunks))).toEqual(expected)
+    }
+  })
+
+  it('skips prose and code fences around the object', () => {
+    const text = 'Here is the report:\n```json\n{"title":"T"}\n```\nLet me know {"ignored":true}'
+    for (const chunks of splits(text)) {
+      const values = parse(chunks)
+      expect(root(values)).toEqual({ title: 'T' })
+      expect(values).toHaveLength(2)
+    }
+  })
+
+  it('reports values innermost first with their paths', () => {
+    expect(parse(['{"sections":[{"title":"One"},', '{"title":"Two"}],"n":3}'])).toEqual([
+      [['sections', 0, 'title'], 'One'],
+      [['sections', 0], { title: 'One' }],
+      [['sections', 1, 'title'], 'Two'],
+      [['sections', 1], { title: 'Two' }],
+      [['sections'], [{ title: 'One' }, { title: 'Two' }]],
+      [['n'], 3],
+      [[], { sections: [{ title: 'One' }, { title: 'Two' }], n: 3 }],
+    ])
+  })
+
+  it('reports a value as soon as it closes, before the rest arrives', () => {
+    const values: Array<[JsonPath, unknown]> = []
+    const parser = createJsonStreamParser((path, value) => values.push([path, value]))
+
+    parser.write('{"title":"Rep')
+    expect(values).toEqual([])
+    parser.write('ort","count":4')
+    // The number could still go on, so it isn't reported until its terminator
+    expect(values).toEqual([[['title'], 'Report']])
+    parser.write('2}')
+    expect(values.slice(1)).toEqual([
+      [['count'], 42],
+      [[], { title: 'Report', count: 42 }],
+    ])
+  })
+})
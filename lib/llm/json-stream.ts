@@ -0,0 +1,141 @@
+// Incremental JSON parsing for streamed model output: values are reported as soon as
+// their closing character arrives, long before the whole object is complete
+
+export type JsonPath = Array<string | number>
+
+type Frame =
+  | { kind: 'object'; path: JsonPath; value: Record<string, unknown>; key: string | null }
+  | { kind: 'array'; path: JsonPath; value: unknown[] }
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+}
+
+function parseLiteral(text: string): unknown {
+  if (text === 'true') return true
+  if (text === 'false') return false
+  if (text === 'null') return null
+  const number = Number(text)
+  return Number.isNaN(number) ? text : number
+}
+
+// Feed text in with write(); onValue is called with the path and value of every
+// string, number, literal, array and object as it completes, innermost first.
+// Anything before the first "{" (prose, code fences) and after the root object
+// closes is ignored. The parser is lenient: malformed input yields partial or odd
+// values rather than errors, so the complete response must still be validated
+export function createJsonStreamParser(onValue: (path: JsonPath, value: unknown) => void) {
+  const stack: Frame[] = []
+  let started = false
+  let done = false
+  let string: { text: string; isKey: boolean } | null = null
+  // null outside an escape, '' right after a backslash, 'u...' while reading \uXXXX
+  let escape: string | null = null
+  let literal = ''
+
+  const top = () => stack[stack.length - 1]
+
+  const childPath = (): JsonPath => {
+    const parent = top()
+    if (!parent) return []
+    return [...parent.path, parent.kind === 'array' ? parent.value.length : parent.key ?? '']
+  }
+
+  const complete = (value: unknown) => {
+    const path = childPath()
+    const parent = top()
+    if (!parent) {
+      done = true
+    } else if (parent.kind === 'array') {
+      parent.value.push(value)
+    } else {
+      parent.value[parent.key ?? ''] = value
+      parent.key = null
+    }
+    onValue(path, value)
+  }
+
+  const readStringChar = (char: string, current: { text: string; isKey: boolean }) => {
+    if (escape === '') {
+      if (char === 'u') {
+        escape = 'u'
+      } else {
+        current.text += ESCAPES[char] ?? char
+        escape = null
+      }
+    } else if (escape !== null) {
+      escape += char
+      if (escape.length === 5) {
+        current.text += String.fromCharCode(parseInt(escape.slice(1), 16))
+        escape = null
+      }
+    } else if (char === '\\') {
+      escape = ''
+    } else if (char === '"') {
+      string = null
+      const parent = top()
+      if (current.isKey && parent?.kind === 'object') {
+        parent.key = current.text
+      } else {
+        complete(current.text)
+      }
+    } else {
+      current.text += char
+    }
+  }
+
+  const readChar = (char: string) => {
+    if (done) return
+    if (string) {
+      readStringChar(char, string)
+      return
+    }
+    if (!started) {
+      if (char !== '{') return
+      started = true
+    }
+
+    if (literal) {
+      if (/[\w.+-]/.test(char)) {
+        literal += char
+        return
+      }
+      complete(parseLiteral(literal))
+      literal = ''
+    }
+
+    const parent = top()
+    switch (char) {
+      case '"':
+        string = { text: '', isKey: parent?.kind === 'object' && parent.key === null }
+        break
+      case '{':
+        stack.push({ kind: 'object', path: childPath(), value: {}, key: null })
+        break
+      case '[':
+        stack.push({ kind: 'array', path: childPath(), value: [] })
+        break
+      case '}':
+      case ']': {
+        const frame = stack.pop()
+        if (frame) complete(frame.value)
+        break
+      }
+      default:
+        // Separators and whitespace carry no data once values are tracked by path
+        if (!/[\s,:]/.test(char)) literal = char
+    }
+  }
+
+  return {
+    write(text: string) {
+      for (const char of text) {
+        readChar(char)
+      }
+    },
+  }
+}
@@ -0,0 +1,52 @@
+import Anthropic from '@anthropic-ai/sdk'
+import { type GenerateOptions, type LLMProvider } from '../types'
+
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY || '',
+})
+
+// Map config model keys to Anthropic API model names
+const models: Record<string, string> = {
+  'sonnet-3.5': 'claude-3-5-sonnet-latest',
+  'haiku-3.5': 'claude-3-5-haiku-latest',
+}
+
+function buildRequest(model: string, { prompt, format = 'text', maxTokens = 8192 }: GenerateOptions) {
+  const apiModel = models[model] || model
+  console.log('Calling Anthropic model:', apiModel, 'with max_tokens:', maxTokens)
+  return {
+    model: apiModel,
+    max_tokens: maxTokens,
+    temperature: 0.9,
+    messages: [
+      {
+        role: 'user' as const,
+        content: prompt,
+      },
+      // No native JSON mode, so prefill the opening brace to force an object
+      ...(format === 'json' ? [{ role: 'assistant' as const, content: '{' }] : []),
+    ],
+  }
+}
+
+export const anthropicProvider: LLMProvider = {
+  async generate(model, options) {
+    const response = await anthropic.messages.create(buildRequest(model, options))
+    const text = response.content[0]?.text || ''
+    return options.format === 'json' ? `{${text}` : text
+  },
+
+  async *stream(model, options) {
+    const stream = await anthropic.messages.create({
+      ...buildRequest(model, options),
+      stream: true,
+    })
+    // The prefilled brace isn't echoed back
+    if (options.format === 'json') yield '{'
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.text) {
+        yield event.delta.text
+      }
+    }
+  },
+}
@@ -0,0 +1,86 @@
+import OpenAI from 'openai'
+import { type GenerateOptions, type LLMProvider } from '../types'
+
+const deepseek = new OpenAI({
+  baseURL: 'https://api.deepseek.com',
+  apiKey: process.env.DEEPSEEK_API_KEY || '',
+})
+
+type DeepSeekMessage = {
+  role: 'user' | 'assistant' | 'system'
+  content: string
+}
+
+const maxRetries = 3
+
+function buildRequest(model: string, { prompt, format = 'text', maxTokens = 8192 }: GenerateOptions) {
+  const apiModel = `deepseek-${model}`
+  console.log('Calling DeepSeek model:', apiModel, 'with max_tokens:', maxTokens)
+  const messages: DeepSeekMessage[] = [
+    {
+      role: 'user',
+      content: prompt,
+    },
+  ]
+
+  return {
+    model: apiModel,
+    messages,
+    max_tokens: maxTokens,
+    // Only the chat model supports JSON output mode
+    ...(format === 'json' && model === 'chat'
+      ? { response_format: { type: 'json_object' as const } }
+      : {}),
+  }
+}
+
+// Retry a request with exponential backoff
+async function withRetries<T>(request: () => Promise<T>): Promise<T> {
+  let retryCount = 0
+
+  while (retryCount < maxRetries) {
+    try {
+      return await request()
+    } catch (error) {
+      retryCount++
+      if (retryCount < maxRetries) {
+        const delay = Math.pow(2, retryCount) * 1000 // Exponential backoff
+        console.log(`DeepSeek API error (attempt ${retryCount}/${maxRetries}):`, error)
+        console.log(`Retrying in ${delay}ms...`)
+        await new Promise(resolve => setTimeout(resolve, delay))
+      } else {
+        console.error('DeepSeek API error after all retries:', error)
+        throw error
+      }
+    }
+  }
+  throw new Error('Failed to get response from DeepSeek API after all retries')
+}
+
+export const deepseekProvider: LLMProvider = {
+  async generate(model, options) {
+    const request = buildRequest(model, options)
+    const response = await withRetries(() => deepseek.chat.completions.create(request))
+
+    // For the reasoner model, we can get additional reasoning content
+    const messageWithReasoning = response.choices[0].message as any
+    if (request.model === 'deepseek-reasoner' && messageWithReasoning.reasoning_content) {
+      console.log('DeepSeek reasoning:', messageWithReasoning.reasoning_content)
+    }
+
+    return response.choices[0].message.content || ''
+  },
+
+  // Only opening the stream is retried; once text has been yielded it can't be taken back
+  async *stream(model, options) {
+    const request = buildRequest(model, options)
+    const stream = await withRetries(() =>
+      deepseek.chat.completions.create({ ...request, stream: true })
+    )
+    for await (const chunk of stream) {
+      // The reasoner streams its reasoning separately from the answer; only the answer is yielded
+      const text = chunk.choices[0]?.delta?.content
+      if (text) yield text
+    }
+  },
+}
@@ -0,0 +1,51 @@
+import {
+  geminiModel,
+  geminiFlashModel,
+  geminiFlashThinkingModel,
+} from '@/lib/gemini'
+import { type GenerateOptions, type LLMProvider } from '../types'
+
+const models = {
+  'gemini-flash': geminiFlashModel,
+  'gemini-flash-thinking': geminiFlashThinkingModel,
+  'gemini-exp': geminiModel,
+}
+
+// The thinking model rejects JSON response mode
+const jsonModeModels = new Set(['gemini-flash', 'gemini-exp'])
+
+function getModel(model: string) {
+  const geminiModel = models[model as keyof typeof models]
+  if (!geminiModel) {
+    throw new Error(`Unknown Gemini model: ${model}`)
+  }
+  return geminiModel
+}
+
+function buildRequest(model: string, { prompt, format = 'text', maxTokens = 8192 }: GenerateOptions) {
+  console.log('Calling Gemini model:', model, 'with maxOutputTokens:', maxTokens)
+  return {
+    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    generationConfig: {
+      ...getModel(model).generationConfig,
+      maxOutputTokens: maxTokens,
+      responseMimeType:
+        format === 'json' && jsonModeModels.has(model) ? 'application/json' : 'text/plain',
+    },
+  }
+}
+
+export const googleProvider: LLMProvider = {
+  async generate(model, options) {
+    const result = await getModel(model).generateContent(buildRequest(model, options))
+    return result.response.text()
+  },
+
+  async *stream(model, options) {
+    const result = await getModel(model).generateContentStream(buildRequest(model, options))
+    for await (const chunk of result.stream) {
+      const text = chunk.text()
+      if (text) yield text
+    }
+  },
+}
@@ -0,0 +1,43 @@
+import OpenAI from 'openai'
+import { CONFIG } from '@/lib/config'
+import { type GenerateOptions, type LLMProvider } from '../types'
+
+// Ollama and most self-hosted servers ignore the key, but the client requires one
+const local = new OpenAI({
+  baseURL: CONFIG.platforms.local.baseURL,
+  apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+})
+
+function buildRequest(model: string, { prompt, format = 'text', maxTokens = 8192 }: GenerateOptions) {
+  console.log('Calling local model:', model, 'at', CONFIG.platforms.local.baseURL)
+  return {
+    model,
+    messages: [
+      {
+        role: 'user' as const,
+        content: prompt,
+      },
+    ],
+    max_tokens: maxTokens,
+    // Ollama, vLLM and LM Studio all accept OpenAI's JSON mode
+    ...(format === 'json' ? { response_format: { type: 'json_object' as const } } : {}),
+  }
+}
+
+export const localProvider: LLMProvider = {
+  async generate(model, options) {
+    const response = await local.chat.completions.create(buildRequest(model, options))
+    return response.choices[0].message.content || ''
+  },
+
+  async *stream(model, options) {
+    const stream = await local.chat.completions.create({
+      ...buildRequest(model, options),
+      stream: true,
+    })
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content
+      if (text) yield text
+    }
+  },
+}
@@ -0,0 +1,44 @@
+import OpenAI from 'openai'
+import { type GenerateOptions, type LLMProvider } from '../types'
+
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY || '',
+})
+
+// o1-mini doesn't support response_format
+const jsonModeModels = new Set(['gpt-4o', 'o1'])
+
+function buildRequest(model: string, { prompt, format = 'text', maxTokens = 8192 }: GenerateOptions) {
+  console.log('Calling OpenAI model:', model, 'with max_tokens:', maxTokens)
+  return {
+    model,
+    messages: [
+      {
+        role: 'user' as const,
+        content: prompt,
+      },
+    ],
+    max_tokens: maxTokens,
+    ...(format === 'json' && jsonModeModels.has(model)
+      ? { response_format: { type: 'json_object' as const } }
+      : {}),
+  }
+}
+
+export const openaiProvider: LLMProvider = {
+  async generate(model, options) {
+    const response = await openai.chat.completions.create(buildRequest(model, options))
+    return response.choices[0].message.content || ''
+  },
+
+  async *stream(model, options) {
+    const stream = await openai.chat.completions.create({
+      ...buildRequest(model, options),
+      stream: true,
+    })
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content
+      if (text) yield text
+    }
+  },
+}
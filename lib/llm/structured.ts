@@ -0,0 +1,134 @@
+import { type z } from 'zod'
+import { generate, generateStream } from './index'
+import { createJsonStreamParser, type JsonPath } from './json-stream'
+
+const MAX_REPAIR_ATTEMPTS = 2
+
+// Pull the JSON payload out of a response that may be wrapped in prose or code fences
+export function extractJson(response: string): string {
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
+  const candidate = fenced ? fenced[1] : response
+  const start = candidate.indexOf('{')
+  const end = candidate.lastIndexOf('}')
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object found in response')
+  }
+  return candidate.slice(start, end + 1)
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(root)'
+    return `${path}: ${issue.message}`
+  })
+}
+
+// Parse and validate a response; returns the data or the list of problems
+function validateResponse<T>(
+  response: string,
+  schema: z.ZodType<T>
+): { success: true; data: T } | { success: false; errors: string[] } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(extractJson(response))
+  } catch (error) {
+    return { success: false, errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`] }
+  }
+
+  const result = schema.safeParse(parsed)
+  if (!result.success) {
+    return { success: false, errors: formatIssues(result.error) }
+  }
+  return { success: true, data: result.data }
+}
+
+function buildRepairPrompt(originalPrompt: string, response: string, errors: string[]) {
+  return `${originalPrompt}
+
+Your previous response could not be used because it did not match the required JSON format.
+
+Validation errors:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+<response>
+${response}
+</response>
+
+Return the corrected response as a single valid JSON object only. Keep all of the content that was valid, fix only what the errors describe, and do not wrap it in markdown code blocks.`
+}
+
+type StructuredOptions<T> = {
+  prompt: string
+  schema: z.ZodType<T>
+  maxTokens?: number
+}
+
+// Validate a response, asking the model to repair it with the validation errors
+// until it passes or the attempts run out
+async function validateWithRepair<T>(
+  platformModel: string,
+  { prompt, schema, maxTokens }: StructuredOptions<T>,
+  response: string
+): Promise<T> {
+  let currentResponse = response
+  let errors: string[] = []
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    if (attempt > 0) {
+      currentResponse = await generate(platformModel, {
+        prompt: buildRepairPrompt(prompt, currentResponse, errors),
+        format: 'json',
+        maxTokens,
+      })
+    }
+
+    const result = validateResponse(currentResponse, schema)
+    if (result.success) {
+      return result.data
+    }
+
+    errors = result.errors
+    console.warn(`Structured output invalid (attempt ${attempt + 1}):`, errors)
+  }
+
+  throw new Error(
+    `Model output failed validation after ${MAX_REPAIR_ATTEMPTS + 1} attempts: ${errors.join('; ')}`
+  )
+}
+
+// Generate JSON output that must satisfy a schema, asking the model to repair
+// its own output with the validation errors when it doesn't
+export async function generateStructured<T>(
+  platformModel: string,
+  options: StructuredOptions<T>
+): Promise<T> {
+  const response = await generate(platformModel, {
+    prompt: options.prompt,
+    format: 'json',
+    maxTokens: options.maxTokens,
+  })
+  return validateWithRepair(platformModel, options, response)
+}
+
+// Like generateStructured, but streams the first attempt and reports each JSON value
+// as it completes. The streamed values are unvalidated; the return value is the
+// validated (and if need be repaired) result
+export async function streamStructured<T>(
+  platformModel: string,
+  { onValue, ...options }: StructuredOptions<T> & {
+    onValue: (path: JsonPath, value: unknown) => void
+  }
+): Promise<T> {
+  const parser = createJsonStreamParser(onValue)
+  let response = ''
+  for await (const text of generateStream(platformModel, {
+    prompt: options.prompt,
+    format: 'json',
+    maxTokens: options.maxTokens,
+  })) {
+    response += text
+    parser.write(text)
+  }
+  return validateWithRepair(platformModel, options, response)
+}
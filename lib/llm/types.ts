@@ -0,0 +1,14 @@
+export type ResponseFormat = 'text' | 'json'
+
+export interface GenerateOptions {
+  prompt: string
+  format?: ResponseFormat
+  maxTokens?: number
+}
+
+// Every AI platform in CONFIG.platforms is backed by one provider
+export interface LLMProvider {
+  generate(model: string, options: GenerateOptions): Promise<string>
+  // Same request as generate, yielding the response text as it's produced
+  stream(model: string, options: GenerateOptions): AsyncIterable<string>
+}
@@ -24,3 +24,16 @@ export const reportContentRatelimit = new Ratelimit({
   redis,
   limiter: Ratelimit.slidingWindow(CONFIG.rateLimits.reportGeneration, '1 m'),
 })
+
+// Knowledge base sign-in: Configurable attempts per minute
+export const signInRatelimit = new Ratelimit({
+  redis,
+  limiter: Ratelimit.slidingWindow(CONFIG.rateLimits.signIn, '1 m'),
+})
+
+// Rate limit key for whoever sent a request. x-real-ip and the last x-forwarded-for
+// entry are set by the proxy in front of us; earlier entries come from the client
+export function getClientKey(request: Request): string {
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+  return request.headers.get('x-real-ip') || forwardedFor || 'unknown-client'
+}
@@ -0,0 +1,111 @@
+import {
+  articlesForSources,
+  citationMarkerInstructions,
+  remapCitations,
+} from '@/lib/citations'
+import { fitArticlesToBudget, getSourceBudget } from '@/lib/llm/budget'
+import { generateStructured } from '@/lib/llm/structured'
+import { reportSectionSchema } from '@/lib/schemas'
+import {
+  type Article,
+  type Report,
+  type ReportSection,
+  type SectionAction,
+} from '@/types'
+
+export const SECTION_ACTIONS: SectionAction[] = ['regenerate', 'expand', 'shorten', 'rewrite']
+
+const actionInstructions: Record<SectionAction, string> = {
+  regenerate: 'Write this section again from scratch. Cover the same topic and keep its place in the report, but improve on the current draft',
+  expand: 'Expand this section to roughly twice its length with more detail, evidence and examples from the sources. Keep what is already there unless it is wrong',
+  shorten: 'Shorten this section to roughly half its length. Keep the most important points and their citations; drop repetition and minor detail',
+  rewrite: "Rewrite this section following the user's instruction. Change only what the instruction asks for",
+}
+
+function sectionPrompt(
+  report: Report,
+  index: number,
+  articles: Article[],
+  {
+    action,
+    instruction,
+    contentType,
+    citationStyle,
+  }: { action: SectionAction; instruction: string; contentType: 'report' | 'presentation'; citationStyle: string }
+): string {
+  const section = report.sections[index]
+  const citationInstructions =
+    contentType === 'presentation'
+      ? `Cite sources with ${citationStyle} citations, the same way the current section does`
+      : citationMarkerInstructions
+
+  return `You are revising one section of a research ${contentType} titled "${report.title}".
+
+${actionInstructions[action]}.${instruction ? `\n\nUser instruction: ${instruction}` : ''}
+
+The ${contentType}'s sections, for context; don't repeat what the other sections cover:
+${report.sections.map((other, i) => `${i + 1}. ${other.title}${i === index ? ' (this section)' : ''}`).join('\n')}
+
+Current section:
+<section title="${section.title}">
+${section.content}
+</section>
+
+${citationInstructions}. Only state what the sources support, and keep using markdown formatting as the current section does.
+
+Sources:
+${articles.map((article, i) => `
+[${i + 1}] ${article.title}
+URL: ${article.url}
+Content: ${article.content || '(not available; rely on the current section for what it says)'}
+`).join('\n')}
+
+Respond with a JSON object of the form:
+{
+  "title": "Section title",
+  "content": "Section content with markdown formatting"
+}`
+}
+
+// Regenerate, expand, shorten or rewrite one section of a finished report, with
+// the same sources the report was written from
+export async function reviseSection(
+  platformModel: string,
+  report: Report,
+  index: number,
+  {
+    action,
+    instruction = '',
+    articles,
+    contentType = 'report',
+    citationStyle = 'APA 7th Edition',
+  }: {
+    action: SectionAction
+    instruction?: string
+    articles: Article[]
+    contentType?: 'report' | 'presentation'
+    citationStyle?: string
+  }
+): Promise<ReportSection> {
+  const options = { action, instruction: instruction.trim(), contentType, citationStyle }
+  const numberedArticles = articlesForSources(report.sources, articles)
+  const section = report.sections[index]
+
+  // Condense sources that won't fit in the model's context window
+  const promptTemplate = sectionPrompt(report, index, [], options)
+  const promptArticles = await fitArticlesToBudget(platformModel, numberedArticles, {
+    query: `${section.title} ${options.instruction}`,
+    budget: getSourceBudget(platformModel, promptTemplate),
+  })
+
+  const revised = await generateStructured(platformModel, {
+    prompt: sectionPrompt(report, index, promptArticles, options),
+    schema: reportSectionSchema,
+    maxTokens: 8192,
+  })
+
+  return {
+    title: revised.title,
+    content: remapCitations(revised.content, numberedArticles, report.sources),
+  }
+}
@@ -0,0 +1,230 @@
+import { redis } from './redis'
+import { CONFIG } from './config'
+import { deepResearch, toSearchResponse } from './deep-research'
+import { createSSEResponse } from './sse'
+import { formatResearchBrief } from './clarify'
+import {
+  type Clarification,
+  type DeepResearchResult,
+  type DeepSearchEvent,
+  type ResearchJob,
+  type ResearchNode,
+  type SearchFilters,
+} from '@/types'
+
+const jobKey = (id: string) => `deep-research:job:${id}`
+const cancelKey = (id: string) => `deep-research:job:${id}:cancel`
+// Held by the worker running a job, and kept alive by its heartbeat
+const ownerKey = (id: string) => `deep-research:job:${id}:owner`
+
+// Extend or release the owner key only while this worker still holds it
+const RENEW_LEASE = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`
+const RELEASE_LEASE = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`
+
+// The right to run a job; only one worker holds it at a time
+export type JobLease = {
+  jobId: string
+  token: string
+}
+
+export async function getJob(id: string): Promise<ResearchJob | null> {
+  return redis.get<ResearchJob>(jobKey(id))
+}
+
+async function saveJob(job: ResearchJob): Promise<void> {
+  job.updatedAt = Date.now()
+  await redis.set(jobKey(job.id), job, { ex: CONFIG.deepResearch.jobTtlSeconds })
+}
+
+export async function createJob({
+  query,
+  depth,
+  breadth,
+  platformModel,
+  filters,
+  clarifications,
+  adaptive,
+  nodes = [],
+}: {
+  query: string
+  depth: number
+  breadth: number
+  platformModel: string
+  filters?: SearchFilters
+  clarifications?: Clarification[]
+  adaptive?: boolean
+  // Pre-approved research plan
+  nodes?: ResearchNode[]
+}): Promise<ResearchJob> {
+  const now = Date.now()
+  const job: ResearchJob = {
+    id: crypto.randomUUID(),
+    status: 'running',
+    query,
+    depth,
+    breadth,
+    platformModel,
+    filters,
+    clarifications,
+    adaptive,
+    nodes,
+    createdAt: now,
+    updatedAt: now,
+  }
+  await saveJob(job)
+  return job
+}
+
+// Flag a job for cancellation; the run stops before its next query
+export async function cancelJob(id: string): Promise<void> {
+  await redis.set(cancelKey(id), 1, { ex: CONFIG.deepResearch.jobTtlSeconds })
+}
+
+async function isJobCancelled(id: string): Promise<boolean> {
+  return (await redis.exists(cancelKey(id))) === 1
+}
+
+// Take over a job unless a live worker holds it. Resolves to null when one does.
+// The owner key expires after staleJobMs without a heartbeat, which is how a
+// worker that died is detected
+export async function claimJob(id: string): Promise<JobLease | null> {
+  const token = crypto.randomUUID()
+  const claimed = await redis.set(ownerKey(id), token, {
+    nx: true,
+    px: CONFIG.deepResearch.staleJobMs,
+  })
+  return claimed === 'OK' ? { jobId: id, token } : null
+}
+
+async function renewLease(lease: JobLease): Promise<boolean> {
+  const renewed = await redis.eval(
+    RENEW_LEASE,
+    [ownerKey(lease.jobId)],
+    [lease.token, String(CONFIG.deepResearch.staleJobMs)]
+  )
+  return renewed === 1
+}
+
+async function releaseLease(lease: JobLease): Promise<void> {
+  await redis.eval(RELEASE_LEASE, [ownerKey(lease.jobId)], [lease.token])
+}
+
+// Run (or resume) a job, checkpointing the research tree after every change.
+// The caller must hold the job's lease
+export async function runJob(
+  job: ResearchJob,
+  lease: JobLease,
+  onProgress?: (event: DeepSearchEvent) => void
+): Promise<ResearchJob> {
+  // Renew the lease on a timer rather than per checkpoint, since one query's
+  // fetches and model calls can take longer than staleJobMs
+  let leaseLost = false
+  const heartbeat = setInterval(() => {
+    renewLease(lease)
+      .then(renewed => {
+        if (!renewed) {
+          console.warn(`Lost the lease on deep research job ${job.id}; stopping`)
+          leaseLost = true
+        }
+      })
+      .catch(error => console.error(`Failed to renew lease on job ${job.id}:`, error))
+  }, CONFIG.deepResearch.staleJobMs / 4)
+
+  try {
+    return await runLeasedJob(job, () => leaseLost, onProgress)
+  } finally {
+    clearInterval(heartbeat)
+    await releaseLease(lease).catch(error =>
+      console.error(`Failed to release lease on job ${job.id}:`, error)
+    )
+  }
+}
+
+async function runLeasedJob(
+  job: ResearchJob,
+  isLeaseLost: () => boolean,
+  onProgress?: (event: DeepSearchEvent) => void
+): Promise<ResearchJob> {
+  job.status = 'running'
+  job.error = undefined
+  await redis.del(cancelKey(job.id))
+  await saveJob(job)
+
+  // Serialize writes so an older snapshot never overwrites a newer one. A worker
+  // that lost its lease stops writing, since another one has taken the job over
+  let pendingSave = Promise.resolve()
+  const checkpoint = () => {
+    pendingSave = pendingSave
+      .then(() => (isLeaseLost() ? undefined : saveJob(job)))
+      .catch(error => console.error(`Failed to checkpoint job ${job.id}:`, error))
+    return pendingSave
+  }
+
+  let cancelled = false
+  const shouldStop = async () => {
+    if (isLeaseLost()) return true
+    if (!cancelled) {
+      cancelled = await isJobCancelled(job.id)
+    }
+    return cancelled
+  }
+
+  try {
+    const result: DeepResearchResult = await deepResearch({
+      query: job.query,
+      depth: job.depth,
+      breadth: job.breadth,
+      context: {
+        platformModel: job.platformModel,
+        adaptive: job.adaptive,
+        filters: job.filters,
+        brief: formatResearchBrief(job.clarifications),
+        nodes: job.nodes,
+        onProgress,
+        onCheckpoint: checkpoint,
+        shouldStop,
+      },
+    })
+    job.result = result
+    job.status = cancelled ? 'cancelled' : 'completed'
+  } catch (error) {
+    job.status = 'failed'
+    job.error = error instanceof Error ? error.message : 'Unknown error'
+  }
+
+  await checkpoint()
+  return job
+}
+
+// Stream a job's progress over SSE, finishing with its result
+export function streamJob(job: ResearchJob, lease: JobLease): Response {
+  return createSSEResponse(async (send) => {
+    send('job', { id: job.id })
+    console.log(`Running deep research job ${job.id}...`)
+
+    const finishedJob = await runJob(job, lease, (event) => send('progress', event))
+    if (finishedJob.status === 'failed' || !finishedJob.result) {
+      console.error(`Deep research job ${job.id} failed:`, finishedJob.error)
+      send('error', { error: 'Failed to perform deep search' })
+      return
+    }
+
+    const { learnings, visitedUrls, errors } = finishedJob.result
+    send('result', {
+      ...toSearchResponse(learnings, visitedUrls, errors, finishedJob.nodes),
+      jobId: job.id,
+      cancelled: finishedJob.status === 'cancelled',
+      clarifications: job.clarifications,
+    })
+  })
+}
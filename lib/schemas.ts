@@ -0,0 +1,99 @@
+import { z } from 'zod'
+import {
+  type KnowledgeBaseEntry,
+  type Report,
+  type SectionVerification,
+  type SerpQuery,
+} from '@/types'
+
+// Runtime schemas for model output; each is typed against the matching type in
+// types/index.ts so the two can't drift apart
+
+export const sourceSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  name: z.string(),
+})
+
+export const reportSectionSchema = z.object({
+  title: z.string().min(1, 'Section title must not be empty'),
+  content: z.string(),
+})
+
+export const sectionVerificationSchema: z.ZodType<SectionVerification> = z.object({
+  claims: z.array(
+    z.object({
+      claim: z.string().min(1),
+      verdict: z.enum(['supported', 'contradicted', 'unsupported']),
+      sources: z.array(z.number().int()),
+      explanation: z.string(),
+    })
+  ),
+})
+
+// What the model produces; sources are attached by the server afterwards
+export const generatedReportSchema: z.ZodType<Omit<Report, 'sources'>> = z.object({
+  title: z.string().min(1, 'Report title must not be empty'),
+  summary: z.string(),
+  sections: z.array(reportSectionSchema).min(1, 'Report must have at least one section'),
+})
+
+export const reportSchema: z.ZodType<Report> = z.object({
+  title: z.string(),
+  summary: z.string(),
+  sections: z.array(
+    reportSectionSchema.extend({ verification: sectionVerificationSchema.optional() })
+  ),
+  sources: z.array(sourceSchema),
+})
+
+export const knowledgeBaseEntrySchema: z.ZodType<KnowledgeBaseEntry> = z
+  .object({
+    id: z.string().min(1),
+    updatedAt: z.number(),
+    report: z
+      .object({
+        id: z.string().min(1),
+        timestamp: z.number(),
+        query: z.string(),
+        report: reportSchema,
+        articles: z
+          .array(z.object({ url: z.string(), title: z.string(), content: z.string() }))
+          .optional(),
+        updatedAt: z.number().optional(),
+      })
+      .nullable(),
+  })
+  .refine(entry => !entry.report || entry.report.id === entry.id, {
+    message: 'Entry id must match its report id',
+    path: ['report', 'id'],
+  })
+
+export const serpQuerySchema: z.ZodType<SerpQuery> = z.object({
+  query: z.string().min(1),
+  researchGoal: z.string(),
+})
+
+// A reviewed list of first-level queries sent back to run deep research with
+export const researchPlanSchema = z
+  .array(serpQuerySchema)
+  .min(1, 'The research plan needs at least one query')
+
+export const serpQueriesSchema: z.ZodType<{ queries: SerpQuery[] }> = z.object({
+  queries: z.array(serpQuerySchema),
+})
+
+export const serpResultSchema = z.object({
+  learnings: z.array(
+    z.object({
+      text: z.string().min(1),
+      // Numbers of the contents the learning was drawn from
+      sources: z.array(z.number().int()),
+    })
+  ),
+  followUpQuestions: z.array(z.string()),
+})
+
+export const clarifyingQuestionsSchema = z.object({
+  questions: z.array(z.string().min(1)).min(1, 'Ask at least one question'),
+})
@@ -0,0 +1,89 @@
+import { CONFIG } from '@/lib/config'
+import { type SearchFilters, type TimeRange } from '@/types'
+
+export const TIME_RANGES: TimeRange[] = ['any', 'day', 'week', 'month', 'year', 'custom']
+
+export const ANY_REGION = 'any'
+
+// Regions offered in the UI, as language-country codes
+export const SEARCH_REGIONS = [
+  { value: ANY_REGION, label: 'Worldwide' },
+  { value: 'en-US', label: 'United States' },
+  { value: 'en-GB', label: 'United Kingdom' },
+  { value: 'en-CA', label: 'Canada' },
+  { value: 'en-AU', label: 'Australia' },
+  { value: 'en-IN', label: 'India' },
+  { value: 'de-DE', label: 'Germany' },
+  { value: 'fr-FR', label: 'France' },
+  { value: 'es-ES', label: 'Spain' },
+  { value: 'it-IT', label: 'Italy' },
+  { value: 'nl-NL', label: 'Netherlands' },
+  { value: 'pt-BR', label: 'Brazil' },
+  { value: 'ja-JP', label: 'Japan' },
+  { value: 'zh-CN', label: 'China' },
+]
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const RANGE_DAYS: Record<string, number> = {
+  day: 1,
+  week: 7,
+  month: 31,
+  year: 365,
+}
+
+// Returns a user-facing error for malformed filters, otherwise null
+export function getSearchFiltersError(filters: SearchFilters): string | null {
+  const { timeRange, from, to, region } = filters
+  if (timeRange && !TIME_RANGES.includes(timeRange)) {
+    return `Invalid timeRange "${timeRange}"`
+  }
+  if (timeRange === 'custom') {
+    if (!from && !to) {
+      return 'A custom time range needs a from or to date'
+    }
+    if ((from && !DATE.test(from)) || (to && !DATE.test(to))) {
+      return 'Custom time range dates must be formatted as YYYY-MM-DD'
+    }
+    if (from && to && from > to) {
+      return 'The from date must not be after the to date'
+    }
+  }
+  if (region && region !== ANY_REGION && !parseRegion(region)) {
+    return `Invalid region "${region}"`
+  }
+  return null
+}
+
+// The window a time range covers, or null for any time. A custom range without a
+// from date is open-ended into the past; without a to date it runs up to today
+export function getDateRange(filters: SearchFilters): { from: Date | null; to: Date } | null {
+  const { timeRange = 'any' } = filters
+  const now = new Date()
+
+  if (timeRange === 'custom') {
+    if (!filters.from && !filters.to) return null
+    return {
+      from: filters.from ? new Date(`${filters.from}T00:00:00Z`) : null,
+      to: filters.to ? new Date(`${filters.to}T23:59:59Z`) : now,
+    }
+  }
+
+  const days = RANGE_DAYS[timeRange]
+  if (!days) return null
+  return { from: new Date(now.getTime() - days * DAY_MS), to: now }
+}
+
+export function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+// Split 'en-US' into its parts; falls back to CONFIG.search.market when no region is given
+export function parseRegion(region?: string): { language: string; country: string } | null {
+  const code = region || CONFIG.search.market
+  if (code === ANY_REGION) return null
+  const match = code.match(/^([a-z]{2})-([a-z]{2})$/i)
+  if (!match) return null
+  return { language: match[1].toLowerCase(), country: match[2].toUpperCase() }
+}
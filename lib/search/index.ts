@@ -0,0 +1,39 @@
+import { CONFIG } from '@/lib/config'
+import { type SearchResult } from '@/types'
+import { type SearchOptions, type SearchProvider } from './types'
+import { duckDuckGoProvider } from './providers/duckduckgo'
+import { semanticScholarProvider } from './providers/semantic-scholar'
+import { searxngProvider } from './providers/searxng'
+import { braveProvider } from './providers/brave'
+
+export type { SearchOptions, SearchProvider } from './types'
+export { getSearchFiltersError } from './filters'
+
+export type SearchType = keyof typeof CONFIG.search.searchTypes
+
+// Providers that search types in CONFIG.search.searchTypes can point at
+const providers: Record<string, SearchProvider> = {
+  'duckduckgo': duckDuckGoProvider,
+  'semantic-scholar': semanticScholarProvider,
+  'searxng': searxngProvider,
+  'brave': braveProvider,
+}
+
+// Returns the provider for an enabled search type, or null if it can't be used
+export function getSearchProvider(searchType: string): SearchProvider | null {
+  const searchTypeConfig = CONFIG.search.searchTypes[searchType as SearchType]
+  if (!searchTypeConfig?.enabled) return null
+  return providers[searchTypeConfig.provider] || null
+}
+
+export async function searchWith(
+  searchType: string,
+  query: string,
+  options: SearchOptions
+): Promise<SearchResult[]> {
+  const provider = getSearchProvider(searchType)
+  if (!provider) {
+    throw new Error(`Search type "${searchType}" is not available`)
+  }
+  return provider.search(query, options)
+}
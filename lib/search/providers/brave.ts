@@ -0,0 +1,70 @@
+import axios from 'axios'
+import { type SearchFilters } from '@/types'
+import { type SearchProvider } from '../types'
+import { getDateRange, parseRegion, toDateString } from '../filters'
+
+interface BraveResult {
+  url: string
+  title: string
+  description?: string
+  page_age?: string
+}
+
+// Brave returns at most 20 results per request
+const RESULTS_PER_PAGE = 20
+
+const freshnessMap: Record<string, string> = {
+  'day': 'pd',
+  'week': 'pw',
+  'month': 'pm',
+  'year': 'py',
+}
+
+function toFilterParams(filters: SearchFilters = {}): Record<string, string> {
+  const params: Record<string, string> = {}
+
+  if (filters.timeRange === 'custom') {
+    const range = getDateRange(filters)
+    if (range) {
+      params.freshness = `${toDateString(range.from || new Date(0))}to${toDateString(range.to)}`
+    }
+  } else if (filters.timeRange && freshnessMap[filters.timeRange]) {
+    params.freshness = freshnessMap[filters.timeRange]
+  }
+
+  params.country = parseRegion(filters.region)?.country || 'ALL'
+  return params
+}
+
+export const braveProvider: SearchProvider = {
+  async search(query, { count, filters }) {
+    const apiKey = process.env.BRAVE_API_KEY
+    if (!apiKey) {
+      throw new Error('Brave search is not configured (set BRAVE_API_KEY)')
+    }
+
+    const results: BraveResult[] = []
+    // The API only allows offsets up to 9
+    for (let offset = 0; results.length < count && offset < 10; offset++) {
+      const response = await axios.get('https://api.search.brave.com/res/v1/web/search', {
+        params: { q: query, count: RESULTS_PER_PAGE, offset, ...toFilterParams(filters) },
+        headers: {
+          'Accept': 'application/json',
+          'X-Subscription-Token': apiKey,
+        },
+        timeout: 10000,
+      })
+      const pageResults: BraveResult[] = response.data.web?.results || []
+      if (pageResults.length === 0) break
+      results.push(...pageResults)
+    }
+
+    return results.slice(0, count).map(result => ({
+      id: result.url,
+      url: result.url,
+      name: result.title,
+      snippet: result.description || '',
+      publishedDate: result.page_age,
+    }))
+  },
+}
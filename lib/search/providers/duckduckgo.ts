@@ -0,0 +1,101 @@
+import { search, SafeSearchType, SearchTimeType, type SearchOptions } from 'duck-duck-scrape'
+import { CONFIG } from '@/lib/config'
+import { type SearchFilters } from '@/types'
+import { type SearchProvider } from '../types'
+import { getDateRange, parseRegion, toDateString } from '../filters'
+
+const safeSearchMap: Record<string, SafeSearchType> = {
+  'Off': SafeSearchType.OFF,
+  'Moderate': SafeSearchType.MODERATE,
+  'Strict': SafeSearchType.STRICT
+}
+
+const RESULTS_PER_PAGE = 30
+
+const timeMap: Record<string, SearchTimeType> = {
+  'day': SearchTimeType.DAY,
+  'week': SearchTimeType.WEEK,
+  'month': SearchTimeType.MONTH,
+  'year': SearchTimeType.YEAR,
+}
+
+// DuckDuckGo's region codes are country-language and call Great Britain "uk"
+function toFilterOptions(filters: SearchFilters = {}): Partial<SearchOptions> {
+  const options: Partial<SearchOptions> = {}
+
+  if (filters.timeRange === 'custom') {
+    const range = getDateRange(filters)
+    if (range) {
+      options.time = `${toDateString(range.from || new Date(0))}..${toDateString(range.to)}`
+    }
+  } else if (filters.timeRange && timeMap[filters.timeRange]) {
+    options.time = timeMap[filters.timeRange]
+  }
+
+  const region = parseRegion(filters.region)
+  if (region) {
+    const country = region.country === 'GB' ? 'uk' : region.country.toLowerCase()
+    options.region = `${country}-${region.language}`
+    options.locale = `${region.language}-${region.country.toLowerCase()}`
+    options.marketRegion = `${region.language}-${region.country}`
+  }
+
+  return options
+}
+
+export const duckDuckGoProvider: SearchProvider = {
+  async search(query, { count, filters }) {
+    const filterOptions = toFilterOptions(filters)
+    const pagesNeeded = Math.ceil(count / RESULTS_PER_PAGE)
+    let allResults: { url: string; title: string; description: string }[] = []
+
+    console.log(`Starting general search for "${query}" (${count} results requested)`)
+
+    for (let page = 0; page < pagesNeeded; page++) {
+      console.log(`Fetching page ${page + 1}/${pagesNeeded}...`)
+      
+      let retries = 3
+      while (retries > 0) {
+        try {
+          // Add initial delay before first request
+          if (page === 0) {
+            await new Promise(resolve => setTimeout(resolve, 2000));
+          }
+
+          const searchResults = await search(query, {
+            safeSearch: safeSearchMap[CONFIG.search.safeSearch] || SafeSearchType.MODERATE,
+            offset: page * RESULTS_PER_PAGE,
+            ...filterOptions,
+          })
+          
+          const uniqueNewResults = searchResults.results.filter(
+            result => !allResults.some(existing => existing.url === result.url)
+          )
+          
+          allResults = [...allResults, ...uniqueNewResults]
+          console.log(`Page ${page + 1} returned ${searchResults.results.length} results (${uniqueNewResults.length} new)`)
+          
+          if (allResults.length >= count) break
+          
+          await new Promise(resolve => setTimeout(resolve, 3000 + Math.random() * 4000)) // 3-7 second delay between pages
+          break
+        } catch (error) {
+          retries--
+          if (retries === 0) throw error
+          const delay = (2 ** (5 - retries) * 2000) + Math.random() * 2000; // Exponential backoff with jitter (8s, 4s, 2s)
+          console.log(`Retrying in ${delay}ms...`)
+          await new Promise(resolve => setTimeout(resolve, delay))
+        }
+      }
+
+      if (allResults.length >= count) break
+    }
+
+    return allResults.slice(0, count).map(result => ({
+      id: result.url,
+      url: result.url,
+      name: result.title,
+      snippet: result.description
+    }))
+  },
+}
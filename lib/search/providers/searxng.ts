@@ -0,0 +1,51 @@
+import axios from 'axios'
+import { type SearchFilters } from '@/types'
+import { type SearchProvider } from '../types'
+import { parseRegion } from '../filters'
+
+interface SearxngResult {
+  url: string
+  title: string
+  content?: string
+  publishedDate?: string | null
+}
+
+// SearxNG has no arbitrary date ranges, so custom ranges aren't applied
+function toFilterParams(filters: SearchFilters = {}): Record<string, string> {
+  const params: Record<string, string> = {}
+  if (filters.timeRange && ['day', 'week', 'month', 'year'].includes(filters.timeRange)) {
+    params.time_range = filters.timeRange
+  }
+  const region = parseRegion(filters.region)
+  params.language = region ? `${region.language}-${region.country}` : 'all'
+  return params
+}
+
+export const searxngProvider: SearchProvider = {
+  async search(query, { count, filters }) {
+    const baseUrl = process.env.SEARXNG_URL
+    if (!baseUrl) {
+      throw new Error('SearxNG search is not configured (set SEARXNG_URL)')
+    }
+
+    const results: SearxngResult[] = []
+    // SearxNG doesn't take a page size, so keep paging until we have enough
+    for (let page = 1; results.length < count && page <= 5; page++) {
+      const response = await axios.get(`${baseUrl.replace(/\/$/, '')}/search`, {
+        params: { q: query, format: 'json', pageno: page, ...toFilterParams(filters) },
+        timeout: 10000,
+      })
+      const pageResults: SearxngResult[] = response.data.results || []
+      if (pageResults.length === 0) break
+      results.push(...pageResults.filter(result => !results.some(existing => existing.url === result.url)))
+    }
+
+    return results.slice(0, count).map(result => ({
+      id: result.url,
+      url: result.url,
+      name: result.title,
+      snippet: result.content || '',
+      publishedDate: result.publishedDate || undefined,
+    }))
+  },
+}
@@ -0,0 +1,100 @@
+import axios from 'axios'
+import { type SearchFilters } from '@/types'
+import { type SearchProvider } from '../types'
+import { getDateRange } from '../filters'
+
+// Academic search has always fetched a fixed number of papers, whatever the search depth
+const PAPER_LIMIT = 60
+
+interface SemanticScholarPaper {
+  paperId: string
+  title: string
+  abstract: string
+  url: string
+  venue: string
+  year: number
+  authors: Array<{ name: string }>
+  openAccessPdf: { url: string; status: string } | null
+  citationCount: number | null
+  publicationDate: string | null
+}
+
+// The search endpoint only filters by publication year, so short ranges widen to whole years
+function toYearFilter(filters: SearchFilters = {}): string | undefined {
+  const range = getDateRange(filters)
+  if (!range) return undefined
+  const from = range.from ? range.from.getUTCFullYear() : ''
+  return `${from}-${range.to.getUTCFullYear()}`
+}
+
+async function searchSemanticScholar(
+  query: string,
+  limit: number,
+  filters?: SearchFilters
+): Promise<SemanticScholarPaper[]> {
+  try {
+    const apiKey = process.env.SEMANTIC_SCHOLAR_API_KEY
+    const headers: Record<string, string> = {
+      'Accept': 'application/json'
+    }
+    
+    // Only add API key if it exists
+    if (apiKey) {
+      headers['x-api-key'] = apiKey
+    }
+
+    const response = await axios.get('https://api.semanticscholar.org/graph/v1/paper/search', {
+      params: {
+        query,
+        limit,
+        year: toYearFilter(filters),
+        fields: 'paperId,title,abstract,url,venue,year,authors,openAccessPdf,citationCount,publicationDate'
+      },
+      headers,
+      timeout: 10000 // 10 second timeout
+    })
+
+    // Add delay if no API key to respect rate limits (100 requests per 5 minutes)
+    if (!apiKey) {
+      await new Promise(resolve => setTimeout(resolve, 3000)); // 3 second delay
+    }
+
+    return response.data.data || []
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      if (error.response?.status === 429) {
+        console.error('Rate limit exceeded for Semantic Scholar API')
+        throw new Error('Academic search rate limit exceeded. Please try again in a few minutes.')
+      } else if (error.code === 'ECONNABORTED') {
+        console.error('Semantic Scholar API timeout')
+        throw new Error('Academic search timed out. Please try again.')
+      } else if (error.response?.status === 503 || error.response?.status === 502) {
+        console.error('Semantic Scholar API service unavailable')
+        throw new Error('Academic search service temporarily unavailable. Please try again later.')
+      }
+    }
+    console.error('Semantic Scholar API error:', error)
+    throw new Error('Failed to fetch academic results. Please try again.')
+  }
+}
+
+export const semanticScholarProvider: SearchProvider = {
+  async search(query, { filters }) {
+    const papers = await searchSemanticScholar(query, PAPER_LIMIT, filters)
+
+    return papers.map(paper => ({
+      id: paper.paperId,
+      // The open access PDF has the full text; the landing page usually only has the abstract
+      url: paper.openAccessPdf?.url || paper.url || `https://www.semanticscholar.org/paper/${paper.paperId}`,
+      name: paper.title,
+      snippet: paper.abstract || 'No abstract available',
+      publishedDate: paper.publicationDate || undefined,
+      metadata: {
+        venue: paper.venue,
+        year: paper.year,
+        authors: paper.authors.map(a => a.name).join(', '),
+        citationCount: paper.citationCount ?? undefined,
+      }
+    }))
+  },
+}
@@ -0,0 +1,13 @@
+import { type SearchFilters, type SearchResult } from '@/types'
+
+export interface SearchOptions {
+  // How many results the caller wants; providers may return fewer
+  count: number
+  // Providers apply what their API supports and ignore the rest
+  filters?: SearchFilters
+}
+
+// A search backend that can serve one of the search types in CONFIG.search.searchTypes
+export interface SearchProvider {
+  search(query: string, options: SearchOptions): Promise<SearchResult[]>
+}
@@ -0,0 +1,113 @@
+// Server-Sent Events helpers shared by streaming API routes and the client
+
+export type SSEMessage = {
+  event: string
+  data: any
+}
+
+export type SSESend = (event: string, data: any) => void
+
+const encoder = new TextEncoder()
+
+// Create a text/event-stream response; the handler pushes events through `send`
+export function createSSEResponse(
+  handler: (send: SSESend) => Promise<void>
+): Response {
+  let closed = false
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send: SSESend = (event, data) => {
+        // The client may have gone away; keep working but stop writing
+        if (closed) return
+        try {
+          controller.enqueue(
+            encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+          )
+        } catch {
+          closed = true
+        }
+      }
+
+      try {
+        await handler(send)
+      } catch (error) {
+        console.error('SSE handler error:', error)
+        send('error', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      closed = true
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
+
+// Parse a single "event: ...\ndata: ..." block
+function parseSSEBlock(block: string): SSEMessage | null {
+  let event = 'message'
+  const dataLines: string[] = []
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim()
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart())
+    }
+  }
+
+  if (dataLines.length === 0) return null
+
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) }
+  } catch {
+    return { event, data: dataLines.join('\n') }
+  }
+}
+
+// Read an SSE response body on the client, calling onMessage for every event
+export async function readSSE(
+  response: Response,
+  onMessage: (message: SSEMessage) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    let separatorIndex = buffer.indexOf('\n\n')
+    while (separatorIndex !== -1) {
+      const block = buffer.slice(0, separatorIndex)
+      buffer = buffer.slice(separatorIndex + 2)
+      const message = parseSSEBlock(block)
+      if (message) onMessage(message)
+      separatorIndex = buffer.indexOf('\n\n')
+    }
+  }
+
+  const message = parseSSEBlock(buffer.trim())
+  if (message) onMessage(message)
+}
@@ -0,0 +1,128 @@
+import pLimit from 'p-limit'
+import { CONFIG } from '@/lib/config'
+import { generateStructured } from '@/lib/llm/structured'
+import { sectionVerificationSchema } from '@/lib/schemas'
+import {
+  type Article,
+  type Report,
+  type ReportSection,
+  type SectionVerification,
+} from '@/types'
+
+// Bibliography sections only list sources, there's nothing to check
+const REFERENCE_SECTION = /^(references|works cited|bibliography|sources)$/i
+
+type NumberedSource = {
+  number: number
+  article: Article
+}
+
+// Number the fetched articles the same way the report's [^n] markers do
+function numberSources(report: Report, articles: Article[]): NumberedSource[] {
+  return report.sources.flatMap((source, index) => {
+    const article = articles.find(a => a.url === source.url)
+    return article ? [{ number: index + 1, article }] : []
+  })
+}
+
+function verificationPrompt(sectionTitle: string, content: string, sources: NumberedSource[]): string {
+  const { maxSourceChars } = CONFIG.verification
+
+  return `You are a meticulous fact checker. Extract every factual claim made in the report section below and check each one against the numbered source texts.
+
+For each claim:
+- "claim": copy the sentence or clause verbatim from the section, without citation markers such as [^1]
+- "verdict": "supported" if a source states it, "contradicted" if a source states otherwise, "unsupported" if no source addresses it
+- "sources": the numbers of the sources that support or contradict it (empty when unsupported)
+- "explanation": one short sentence justifying the verdict
+
+Only judge against the source texts, not your own knowledge. Skip opinions, headings and transitions.
+
+<section title="${sectionTitle}">
+${content}
+</section>
+
+Sources:
+${sources.map(({ number, article }) => `
+[${number}] ${article.title}
+URL: ${article.url}
+Content: ${article.content.slice(0, maxSourceChars)}
+`).join('\n')}
+
+Respond with a JSON object of the form:
+{
+  "claims": [
+    { "claim": "...", "verdict": "supported", "sources": [1], "explanation": "..." }
+  ]
+}`
+}
+
+async function verifySection(
+  platformModel: string,
+  section: ReportSection,
+  sources: NumberedSource[]
+): Promise<SectionVerification> {
+  const verification = await generateStructured(platformModel, {
+    prompt: verificationPrompt(section.title, section.content, sources),
+    schema: sectionVerificationSchema,
+    maxTokens: 4096,
+  })
+
+  // Drop source numbers the model invented
+  const validNumbers = new Set(sources.map(source => source.number))
+  return {
+    claims: verification.claims.map(claim => ({
+      ...claim,
+      sources: claim.sources.filter(number => validNumbers.has(number)),
+    })),
+  }
+}
+
+// Verify one section, or return it unchanged when there's nothing to check or the
+// check fails
+async function verifyOrKeep(
+  platformModel: string,
+  section: ReportSection,
+  sources: NumberedSource[]
+): Promise<ReportSection> {
+  if (REFERENCE_SECTION.test(section.title.trim()) || !section.content.trim()) {
+    return section
+  }
+  try {
+    const verification = await verifySection(platformModel, section, sources)
+    return { ...section, verification }
+  } catch (error) {
+    console.error(`Failed to verify section "${section.title}":`, error)
+    return section
+  }
+}
+
+// Check each section's claims against the fetched source texts. A section that
+// fails verification is returned without a result rather than failing the report
+export async function verifyReport(
+  report: Report,
+  articles: Article[],
+  platformModel: string
+): Promise<Report> {
+  const sources = numberSources(report, articles)
+  if (sources.length === 0) return report
+
+  const limit = pLimit(CONFIG.verification.concurrency)
+  const sections = await Promise.all(
+    report.sections.map(section => limit(() => verifyOrKeep(platformModel, section, sources)))
+  )
+
+  return { ...report, sections }
+}
+
+// Re-check a single section of a report, e.g. after it has been revised
+export async function verifyReportSection(
+  report: Report,
+  section: ReportSection,
+  articles: Article[],
+  platformModel: string
+): Promise<ReportSection> {
+  const sources = numberSources(report, articles)
+  if (sources.length === 0) return section
+  return verifyOrKeep(platformModel, section, sources)
+}
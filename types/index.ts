@@ -4,18 +4,78 @@ export interface Article {
   content: string
 }
 
+export type SearchResult = {
+  id: string
+  url: string
+  name: string
+  snippet: string
+  isCustomUrl?: boolean
+  // Uploaded files carry their extracted text instead of being fetched
+  isUpload?: boolean
+  content?: string
+  // ISO date, when the provider reports one
+  publishedDate?: string
+  credibility?: CredibilityScore
+  metadata?: {
+    venue: string
+    year: number
+    authors: string
+    citationCount?: number
+  }
+}
+
+// A clarifying question asked before research starts and the user's answer to it
+export type Clarification = {
+  question: string
+  // Empty when the user skipped the question
+  answer: string
+}
+
+export type TimeRange = 'any' | 'day' | 'week' | 'month' | 'year' | 'custom'
+
+export type SearchFilters = {
+  timeRange?: TimeRange
+  // YYYY-MM-DD bounds, only used with the 'custom' time range
+  from?: string
+  to?: string
+  // Language-country code such as 'en-US', or 'any' for worldwide results
+  region?: string
+}
+
+export type CredibilityScore = {
+  // 0-100, higher is more trustworthy
+  score: number
+  // Human-readable reasons behind the score, e.g. "+20 government domain"
+  signals: string[]
+}
+
 export interface Source {
   id: string
   url: string
   name: string
 }
 
+export type ClaimVerdict = 'supported' | 'contradicted' | 'unsupported'
+
+export type VerifiedClaim = {
+  claim: string
+  verdict: ClaimVerdict
+  // Numbers of the report sources checked against, as used by [^n] citation markers
+  sources: number[]
+  explanation: string
+}
+
+export type SectionVerification = {
+  claims: VerifiedClaim[]
+}
+
 export type Report = {
   title: string
   summary: string
   sections: {
     title: string
     content: string
+    verification?: SectionVerification
   }[]
   sources: {
     id: string
@@ -24,9 +84,110 @@ export type Report = {
   }[]
 }
 
+export type ReportSection = Report['sections'][number]
+
+// Ways a single report section can be revised after generation
+export type SectionAction = 'regenerate' | 'expand' | 'shorten' | 'rewrite'
+
 export type KnowledgeBaseReport = {
   id: string
   timestamp: number
   query: string
   report: Report
+  // Source texts the report was written from, kept for follow-up questions
+  articles?: Article[]
+  // Last change, for last-write-wins sync; falls back to timestamp
+  updatedAt?: number
+}
+
+// A saved report as synced with the server knowledge base; a null report records
+// a deletion, so it wins over older copies of the report
+export type KnowledgeBaseEntry = {
+  id: string
+  updatedAt: number
+  report: KnowledgeBaseReport | null
+}
+
+// One turn of a follow-up conversation about a report
+export type ChatMessage = {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export type SerpQuery = {
+  query: string
+  researchGoal: string
+}
+
+// A fact found during deep research and the pages it was drawn from
+export type Learning = {
+  text: string
+  urls: string[]
+}
+
+// Progress events emitted by deep research while it runs
+export type DeepSearchEvent =
+  | { type: 'queries'; depth: number; breadth: number; queries: SerpQuery[] }
+  | { type: 'search'; depth: number; query: string }
+  | { type: 'fetch'; query: string; url: string; success: boolean }
+  | { type: 'learnings'; query: string; learnings: Learning[] }
+  | { type: 'query-error'; query: string; error: string }
+  // A query left unrun because the run was cancelled or ran out of budget
+  | { type: 'query-skipped'; query: string; reason: BranchStopReason }
+
+export type ResearchNodeStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+// Why a branch of deep research went no deeper
+export type BranchStopReason =
+  | 'max-depth'
+  | 'no-follow-ups'
+  | 'low-novelty'
+  | 'query-budget'
+  | 'fetch-budget'
+  | 'token-budget'
+  | 'time-budget'
+  | 'cancelled'
+  | 'failed'
+
+// One SERP query in the deep research tree; children point at it via parentId
+export type ResearchNode = {
+  id: string
+  parentId: string | null
+  query: string
+  researchGoal: string
+  depth: number
+  status: ResearchNodeStatus
+  urls: string[]
+  learnings: Learning[]
+  followUpQuestions: string[]
+  error?: string
+  // Share of this node's learnings that weren't already known, 0-1
+  novelty?: number
+  stopReason?: BranchStopReason
+}
+
+export type DeepResearchResult = {
+  learnings: Learning[]
+  visitedUrls: string[]
+  errors: string[]
+}
+
+export type ResearchJobStatus = 'running' | 'completed' | 'failed' | 'cancelled'
+
+// A persisted deep research run that can be polled, resumed or cancelled
+export type ResearchJob = {
+  id: string
+  status: ResearchJobStatus
+  query: string
+  depth: number
+  breadth: number
+  platformModel: string
+  filters?: SearchFilters
+  clarifications?: Clarification[]
+  adaptive?: boolean
+  nodes: ResearchNode[]
+  result?: DeepResearchResult
+  error?: string
+  createdAt: number
+  updatedAt: number
 }